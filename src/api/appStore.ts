@@ -1,8 +1,9 @@
-import { generateToken } from "./auth.js";
+import { API_BASE_URL as BASE_URL, ascGetAllPages } from "./client.js";
+import { loadConfig } from "../config/loader.js";
+import { mapConcurrent } from "../utils/concurrency.js";
+import type { CachedApp, MappingCache } from "../utils/productMappingCache.js";
 import type { AppManagerConfig } from "../types.js";
 
-const BASE_URL = "https://api.appstoreconnect.apple.com/v1";
-
 interface AppData {
   id: string;
   attributes: {
@@ -35,45 +36,13 @@ interface SubscriptionData {
   };
 }
 
-interface ApiResponse<T> {
-  data: T[];
-  links?: {
-    next?: string;
-  };
-}
-
 /**
- * Makes a request to the App Store Connect API with pagination support.
+ * An app as listed by App Store Connect.
  */
-async function fetchAllPages<T>(
-  config: AppManagerConfig,
-  initialUrl: string
-): Promise<T[]> {
-  const token = await generateToken(config);
-  const allData: T[] = [];
-  let url: string | undefined = initialUrl;
-  
-  while (url) {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-      },
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API Error (${response.status}): ${errorText}`);
-    }
-    
-    const json: ApiResponse<T> = await response.json();
-    allData.push(...json.data);
-    
-    url = json.links?.next;
-  }
-  
-  return allData;
+export interface AppSummary {
+  id: string;
+  name: string;
+  bundleId: string;
 }
 
 /**
@@ -81,19 +50,13 @@ async function fetchAllPages<T>(
  */
 async function fetchAllApps(
   config: AppManagerConfig
-): Promise<Map<string, string>> {
-  const apps = await fetchAllPages<AppData>(
+): Promise<AppSummary[]> {
+  const apps = await ascGetAllPages<AppData>(
     config,
     `${BASE_URL}/apps?fields[apps]=name,bundleId&limit=200`
   );
-  
-  // Map: App ID -> App Name
-  const appMap = new Map<string, string>();
-  for (const app of apps) {
-    appMap.set(app.id, app.attributes.name);
-  }
-  
-  return appMap;
+
+  return apps.map((app) => ({ id: app.id, name: app.attributes.name, bundleId: app.attributes.bundleId }));
 }
 
 /**
@@ -103,15 +66,10 @@ async function fetchIAPsForApp(
   config: AppManagerConfig,
   appId: string
 ): Promise<IAPData[]> {
-  try {
-    const iaps = await fetchAllPages<IAPData>(
-      config,
-      `${BASE_URL}/apps/${appId}/inAppPurchasesV2?fields[inAppPurchases]=name,productId,inAppPurchaseType&limit=200`
-    );
-    return iaps;
-  } catch {
-    return [];
-  }
+  return ascGetAllPages<IAPData>(
+    config,
+    `${BASE_URL}/apps/${appId}/inAppPurchasesV2?fields[inAppPurchases]=name,productId,inAppPurchaseType&limit=200`
+  );
 }
 
 /**
@@ -121,15 +79,10 @@ async function fetchSubscriptionGroupsForApp(
   config: AppManagerConfig,
   appId: string
 ): Promise<SubscriptionGroupData[]> {
-  try {
-    const groups = await fetchAllPages<SubscriptionGroupData>(
-      config,
-      `${BASE_URL}/apps/${appId}/subscriptionGroups?fields[subscriptionGroups]=referenceName&limit=200`
-    );
-    return groups;
-  } catch {
-    return [];
-  }
+  return ascGetAllPages<SubscriptionGroupData>(
+    config,
+    `${BASE_URL}/apps/${appId}/subscriptionGroups?fields[subscriptionGroups]=referenceName&limit=200`
+  );
 }
 
 /**
@@ -139,15 +92,10 @@ async function fetchSubscriptionsForGroup(
   config: AppManagerConfig,
   groupId: string
 ): Promise<SubscriptionData[]> {
-  try {
-    const subscriptions = await fetchAllPages<SubscriptionData>(
-      config,
-      `${BASE_URL}/subscriptionGroups/${groupId}/subscriptions?fields[subscriptions]=name,productId&limit=200`
-    );
-    return subscriptions;
-  } catch {
-    return [];
-  }
+  return ascGetAllPages<SubscriptionData>(
+    config,
+    `${BASE_URL}/subscriptionGroups/${groupId}/subscriptions?fields[subscriptions]=name,productId&limit=200`
+  );
 }
 
 /**
@@ -162,91 +110,184 @@ export interface ProductInfo {
 }
 
 /**
- * Builds a complete mapping of all products (apps, IAPs, and subscriptions) to their parent apps.
- * Returns a Map where the key is the product ID (vendor identifier) and the value is ProductInfo.
+ * An app whose in-app purchases or subscriptions couldn't be fetched.
  */
-export async function buildProductMapping(
-  config: AppManagerConfig
-): Promise<Map<string, ProductInfo>> {
-  const productMap = new Map<string, ProductInfo>();
-  
-  // First, fetch all apps
-  console.log("  Fetching apps...");
-  const apps = await fetchAllApps(config);
-  console.log(`  Found ${apps.size} apps.`);
-  
-  // Add apps themselves to the mapping
-  for (const [appId, appName] of apps) {
-    productMap.set(appId, {
-      productId: appId,
-      productName: appName,
-      parentAppId: appId,
-      parentAppName: appName,
+export interface AppMappingFailure {
+  appId: string;
+  appName: string;
+  message: string;
+}
+
+/**
+ * The updated mapping cache, plus the apps that couldn't be fetched.
+ */
+export interface ProductMappingResult {
+  cache: MappingCache;
+  fetchedApps: number;                  // Apps whose products were fetched
+  failures: AppMappingFailure[];
+}
+
+/**
+ * Fetches the IAPs, subscription groups and subscriptions of a single app.
+ * Returns its mapping entries, by product ID and App Store Connect ID, including the app itself.
+ */
+async function fetchProductsForApp(config: AppManagerConfig, app: AppSummary): Promise<CachedApp> {
+  const products: Record<string, ProductInfo> = {
+    [app.id]: {
+      productId: app.id,
+      productName: app.name,
+      parentAppId: app.id,
+      parentAppName: app.name,
       isIAP: false,
-    });
+    },
+  };
+
+  const addProduct = (product: IAPData | SubscriptionData): void => {
+    const info: ProductInfo = {
+      productId: product.attributes.productId,
+      productName: product.attributes.name,
+      parentAppId: app.id,
+      parentAppName: app.name,
+      isIAP: true,
+    };
+
+    // Map by product ID (vendor identifier) and by the App Store Connect ID
+    products[product.attributes.productId] = info;
+    products[product.id] = info;
+  };
+
+  const fetchedAt = Date.now();
+  const iaps = await fetchIAPsForApp(config, app.id);
+  iaps.forEach(addProduct);
+
+  // Fetch subscription groups, then subscriptions within each group
+  const subscriptionGroups = await fetchSubscriptionGroupsForApp(config, app.id);
+  for (const group of subscriptionGroups) {
+    (await fetchSubscriptionsForGroup(config, group.id)).forEach(addProduct);
+  }
+
+  return { appName: app.name, bundleId: app.bundleId, fetchedAt, products };
+}
+
+/**
+ * Shows how many apps have been fetched, updating a single line when stderr is a terminal.
+ */
+function showProgress(done: number, total: number): void {
+  if (process.stderr.isTTY) {
+    process.stderr.write(`\r  Fetching in-app purchases and subscriptions... ${done}/${total} apps`);
+    if (done === total) process.stderr.write("\n");
   }
-  
+}
+
+/**
+ * Counts an app's IAPs and subscriptions (each is mapped under two keys).
+ */
+function countIAPs(app: CachedApp): number {
+  return new Set(Object.values(app.products).filter((info) => info.isIAP).map((info) => info.productId)).size;
+}
+
+/**
+ * Renames an app in its cached entry, for apps whose products aren't fetched again.
+ */
+function renameCachedApp(cached: CachedApp, name: string): CachedApp {
+  if (cached.appName === name) {
+    return cached;
+  }
+
+  const products = Object.fromEntries(
+    Object.entries(cached.products).map(([key, info]) => [
+      key,
+      { ...info, parentAppName: name, productName: info.isIAP ? info.productName : name },
+    ])
+  );
+  return { ...cached, appName: name, products };
+}
+
+/**
+ * Updates the product mapping (apps, IAPs, and subscriptions mapped to their parent apps).
+ *
+ * Fetches the list of apps, then the products of every app that is new or selected by
+ * selectApps. The other apps keep their cached products, and apps that are no longer listed
+ * stay in the cache so older reports still map. Without a cache, every app is fetched.
+ *
+ * Apps are fetched in parallel (mappingConcurrency at a time). An app whose products can't be
+ * fetched doesn't stop the others; it's listed in the result's failures and keeps its cached entry.
+ */
+export async function updateProductMapping(
+  config: AppManagerConfig,
+  cache: MappingCache | null,
+  selectApps: (apps: AppSummary[]) => string[] = () => []
+): Promise<ProductMappingResult> {
+  const appsFetchedAt = Date.now();
+  const cachedApps = cache?.apps ?? {};
+  const failures: AppMappingFailure[] = [];
+
+  // First, fetch all apps
+  console.error("  Fetching apps...");
+  const apps = await fetchAllApps(config);
+  console.error(`  Found ${apps.length} apps.`);
+
+  const selected = new Set(selectApps(apps));
+  const appsToFetch = apps.filter((app) => !cachedApps[app.id] || selected.has(app.id));
+
   // Fetch IAPs and subscriptions for each app
-  console.log("  Fetching in-app purchases and subscriptions...");
-  let iapCount = 0;
-  let subscriptionCount = 0;
-  
-  for (const [appId, appName] of apps) {
-    // Fetch regular IAPs (non-subscription)
-    const iaps = await fetchIAPsForApp(config, appId);
-    
-    for (const iap of iaps) {
-      // Map by product ID (vendor identifier)
-      productMap.set(iap.attributes.productId, {
-        productId: iap.attributes.productId,
-        productName: iap.attributes.name,
-        parentAppId: appId,
-        parentAppName: appName,
-        isIAP: true,
-      });
-      
-      // Also map by the IAP's App Store Connect ID
-      productMap.set(iap.id, {
-        productId: iap.attributes.productId,
-        productName: iap.attributes.name,
-        parentAppId: appId,
-        parentAppName: appName,
-        isIAP: true,
-      });
-      
-      iapCount++;
+  let done = 0;
+
+  if (appsToFetch.length > 0 && process.stderr.isTTY) {
+    showProgress(0, appsToFetch.length);
+  } else if (appsToFetch.length > 0) {
+    console.error(`  Fetching in-app purchases and subscriptions for ${appsToFetch.length} apps...`);
+  }
+
+  const results = await mapConcurrent(appsToFetch, loadConfig().mappingConcurrency, async (app) => {
+    try {
+      return await fetchProductsForApp(config, app);
+    } catch (error) {
+      failures.push({ appId: app.id, appName: app.name, message: (error as Error).message });
+      return null;
+    } finally {
+      showProgress(++done, appsToFetch.length);
     }
-    
-    // Fetch subscription groups, then subscriptions within each group
-    const subscriptionGroups = await fetchSubscriptionGroupsForApp(config, appId);
-    
-    for (const group of subscriptionGroups) {
-      const subscriptions = await fetchSubscriptionsForGroup(config, group.id);
-      
-      for (const sub of subscriptions) {
-        // Map by product ID (vendor identifier)
-        productMap.set(sub.attributes.productId, {
-          productId: sub.attributes.productId,
-          productName: sub.attributes.name,
-          parentAppId: appId,
-          parentAppName: appName,
-          isIAP: true,
-        });
-        
-        // Also map by the subscription's App Store Connect ID
-        productMap.set(sub.id, {
-          productId: sub.attributes.productId,
-          productName: sub.attributes.name,
-          parentAppId: appId,
-          parentAppName: appName,
-          isIAP: true,
-        });
-        
-        subscriptionCount++;
-      }
+  });
+
+  // Merged in app order, so the cache doesn't depend on which request finished first
+  const updatedApps: Record<string, CachedApp> = {};
+  let iapCount = 0;
+
+  for (const app of apps) {
+    const fetched = results[appsToFetch.indexOf(app)];
+
+    if (fetched) {
+      updatedApps[app.id] = fetched;
+      iapCount += countIAPs(fetched);
+    } else if (cachedApps[app.id]) {
+      updatedApps[app.id] = renameCachedApp(cachedApps[app.id], app.name);
     }
   }
-  
-  console.log(`  Found ${iapCount} in-app purchases and ${subscriptionCount} subscriptions.`);
-  return productMap;
+
+  for (const [appId, cached] of Object.entries(cachedApps)) {
+    updatedApps[appId] ??= cached;
+  }
+
+  if (appsToFetch.length > 0) {
+    console.error(`  Found ${iapCount} in-app purchases and subscriptions in ${appsToFetch.length - failures.length} apps.`);
+  }
+
+  // Report failures in app order
+  failures.sort((a, b) =>
+    apps.findIndex((app) => app.id === a.appId) - apps.findIndex((app) => app.id === b.appId)
+  );
+
+  return {
+    cache: { version: 2, appsFetchedAt, apps: updatedApps },
+    fetchedApps: appsToFetch.length - failures.length,
+    failures,
+  };
+}
+
+/**
+ * Builds the product mapping from scratch, fetching every app's products.
+ */
+export function buildProductMapping(config: AppManagerConfig): Promise<ProductMappingResult> {
+  return updateProductMapping(config, null);
 }
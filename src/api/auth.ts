@@ -1,34 +1,107 @@
-import { SignJWT, importPKCS8 } from "jose";
+import { SignJWT, importPKCS8, type CryptoKey } from "jose";
 import {
   loadConfig as loadConfigFromLoader,
   validateFinanceConfig,
   validateAppManagerConfig,
   resolvePrivateKey,
 } from "../config/loader.js";
+import { PrivateKeyError } from "../utils/errors.js";
 import type { AppStoreConnectConfig, AppManagerConfig } from "../types.js";
 
 const TOKEN_EXPIRY_SECONDS = 20 * 60; // 20 minutes (Apple's max)
+const TOKEN_REFRESH_MARGIN_SECONDS = 60; // Sign a new token this long before the old one expires
+
+/**
+ * A signed token kept for reuse until shortly before it expires.
+ */
+interface CachedToken {
+  token: Promise<string>;               // Shared by concurrent callers while it's being signed
+  expiresAt: number;                    // Unix timestamp (seconds)
+}
+
+// Tokens per credential (issuer ID + key ID), and imported keys per private key
+const tokenCache = new Map<string, CachedToken>();
+const privateKeyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Reads and imports the private key from the .p8 file (or base64 content).
+ */
+async function importPrivateKey(config: AppStoreConnectConfig | AppManagerConfig): Promise<CryptoKey> {
+  const privateKeyPem = resolvePrivateKey(config.privateKeyPath);
+
+  try {
+    return await importPKCS8(privateKeyPem, "ES256");
+  } catch (error) {
+    throw new PrivateKeyError(
+      `The private key for key ID ${config.keyId} is not a valid .p8 key: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Gets the imported private key, reading the .p8 file only once per run.
+ * Concurrent callers share the same import; a failed import isn't cached.
+ */
+function getPrivateKey(config: AppStoreConnectConfig | AppManagerConfig): Promise<CryptoKey> {
+  let privateKey = privateKeyCache.get(config.privateKeyPath);
+
+  if (!privateKey) {
+    privateKey = importPrivateKey(config);
+    privateKeyCache.set(config.privateKeyPath, privateKey);
+    privateKey.catch(() => privateKeyCache.delete(config.privateKeyPath));
+  }
+
+  return privateKey;
+}
 
 /**
  * Generates a signed JWT token for App Store Connect API authentication.
  *
  * The token is signed using ES256 algorithm with the private key from the .p8 file.
  * Apple requires specific claims: iss (issuer ID), iat (issued at), exp (expiry), aud (audience).
+ *
+ * Tokens are reused per credential until shortly before they expire.
  */
-export async function generateToken(config: AppStoreConnectConfig | AppManagerConfig): Promise<string> {
-  const privateKeyPem = resolvePrivateKey(config.privateKeyPath);
-  const privateKey = await importPKCS8(privateKeyPem, "ES256");
-
+export function generateToken(config: AppStoreConnectConfig | AppManagerConfig): Promise<string> {
+  const cacheKey = `${config.issuerId}/${config.keyId}`;
   const now = Math.floor(Date.now() / 1000);
 
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt - now > TOKEN_REFRESH_MARGIN_SECONDS) {
+    return cached.token;
+  }
+
+  const expiresAt = now + TOKEN_EXPIRY_SECONDS;
+  const token = signToken(config, now, expiresAt);
+
+  tokenCache.set(cacheKey, { token, expiresAt });
+  token.catch(() => tokenCache.delete(cacheKey));
+
+  return token;
+}
+
+/**
+ * Signs a token valid from issuedAt until expiresAt (Unix timestamps).
+ */
+async function signToken(
+  config: AppStoreConnectConfig | AppManagerConfig,
+  issuedAt: number,
+  expiresAt: number
+): Promise<string> {
+  const privateKey = await getPrivateKey(config);
+
   const token = await new SignJWT({})
     .setProtectedHeader({ alg: "ES256", kid: config.keyId, typ: "JWT" })
     .setIssuer(config.issuerId)
-    .setIssuedAt(now)
-    .setExpirationTime(now + TOKEN_EXPIRY_SECONDS)
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(expiresAt)
     .setAudience("appstoreconnect-v1")
     .sign(privateKey);
 
+  if (process.env.DEBUG) {
+    console.error(`[DEBUG] Signed new token for key ID ${config.keyId}, valid until ${new Date(expiresAt * 1000).toISOString()}`);
+  }
+
   return token;
 }
 
@@ -0,0 +1,377 @@
+import { gunzipSync } from "zlib";
+import { generateToken } from "./auth.js";
+import { CliError, EXIT_CODES, type ExitCode } from "../utils/errors.js";
+import type { AppManagerConfig, AppStoreConnectConfig } from "../types.js";
+
+export const API_BASE_URL = "https://api.appstoreconnect.apple.com/v1";
+
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Per-request overrides of the timeout and retries configured with the credentials.
+ */
+export interface RequestOptions {
+  accept?: string;                      // Accept header (default: JSON)
+  timeoutSeconds?: number;              // 0 disables the timeout
+  maxRetries?: number;
+}
+
+/**
+ * Paginated list response from the App Store Connect API.
+ */
+interface ApiListResponse<T> {
+  data: T[];
+  links?: {
+    next?: string;
+  };
+}
+
+/**
+ * Describes how often a request was retried before giving up (" after 3 retries").
+ */
+function describeRetries(retries: number): string {
+  return retries > 0 ? ` after ${retries} ${retries === 1 ? "retry" : "retries"}` : "";
+}
+
+/**
+ * Error class for failed App Store Connect requests.
+ * Specific failures use the subclasses below so callers don't need to inspect status codes.
+ */
+export class AppStoreConnectError extends CliError {
+  status: number | null;                // HTTP status, null when no response was received
+  url: string;
+
+  constructor(
+    message: string,
+    status: number | null,
+    url: string,
+    exitCode: ExitCode = EXIT_CODES.general,
+    hint: string | null = null
+  ) {
+    super(message, exitCode, hint);
+    this.name = "AppStoreConnectError";
+    this.status = status;
+    this.url = url;
+  }
+}
+
+/**
+ * Error class for rejected credentials (401): an invalid or expired token.
+ */
+export class AuthenticationError extends AppStoreConnectError {
+  constructor(detail: string, url: string) {
+    super(
+      `App Store Connect rejected the API key (401): ${detail}`,
+      401,
+      url,
+      EXIT_CODES.authentication,
+      "Check that the issuer ID and key ID belong to the private key, that the key hasn't been revoked, " +
+      "and that the system clock is correct (tokens are only valid for 20 minutes)."
+    );
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Error class for a key without access to the resource (403).
+ */
+export class ForbiddenError extends AppStoreConnectError {
+  constructor(detail: string, url: string) {
+    const isReport = url.includes("/financeReports") || url.includes("/salesReports");
+    super(
+      `The API key is not allowed to access this resource (403): ${detail}`,
+      403,
+      url,
+      EXIT_CODES.forbidden,
+      isReport
+        ? "This key needs the Finance role. Create one in App Store Connect under Users and Access > Integrations."
+        : "This key needs the App Manager role. Create one in App Store Connect under Users and Access > Integrations."
+    );
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * Error class for a vendor number that doesn't belong to the account.
+ */
+export class VendorNumberError extends AppStoreConnectError {
+  constructor(status: number, detail: string, url: string) {
+    super(
+      `App Store Connect didn't accept the vendor number (${status}): ${detail}`,
+      status,
+      url,
+      EXIT_CODES.vendorNumber,
+      "Check ASC_VENDOR_NUMBER / vendorNumber. It's shown in App Store Connect under Payments and Financial Reports."
+    );
+    this.name = "VendorNumberError";
+  }
+}
+
+/**
+ * Error class for a resource that doesn't exist (404), e.g. a report that isn't published yet.
+ */
+export class NotFoundError extends AppStoreConnectError {
+  constructor(detail: string, url: string) {
+    super(`Not found (404): ${detail}`, 404, url);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Error class for rate limiting (429) that outlasted every retry.
+ */
+export class RateLimitedError extends AppStoreConnectError {
+  retryAfterSeconds: number | null;     // From the Retry-After header, if Apple sent one
+
+  constructor(retries: number, retryAfterSeconds: number | null, url: string) {
+    super(
+      `App Store Connect is rate limiting requests (429)${describeRetries(retries)}.`,
+      429,
+      url,
+      EXIT_CODES.network,
+      retryAfterSeconds !== null ? `Try again in ${retryAfterSeconds}s.` : "Try again in a few minutes."
+    );
+    this.name = "RateLimitedError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Error class for App Store Connect server errors (5xx) that outlasted every retry.
+ */
+export class ServerError extends AppStoreConnectError {
+  constructor(status: number, detail: string, retries: number, url: string) {
+    super(
+      `App Store Connect server error (${status})${describeRetries(retries)}: ${detail}`,
+      status,
+      url,
+      EXIT_CODES.network,
+      "This is usually temporary. Try again later, or check https://developer.apple.com/system-status/."
+    );
+    this.name = "ServerError";
+  }
+}
+
+/**
+ * Error class for requests that timed out or never reached App Store Connect.
+ */
+export class NetworkError extends AppStoreConnectError {
+  constructor(detail: string, retries: number, url: string) {
+    super(
+      `Could not reach App Store Connect${describeRetries(retries)}: ${detail}`,
+      null,
+      url,
+      EXIT_CODES.network,
+      "Check your internet connection, or raise ASC_TIMEOUT_SECONDS / requestTimeoutSeconds. Use --offline to work from the cache."
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Waits for a number of milliseconds.
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads the Retry-After header (seconds or an HTTP date) in milliseconds.
+ */
+function getRetryAfterMs(response: Response): number | null {
+  const value = response.headers.get("retry-after");
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter: ~1s, 2s, 4s, ...
+ */
+function getBackoffMs(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+}
+
+/**
+ * An entry of the "errors" array in App Store Connect error responses.
+ */
+interface ApiErrorEntry {
+  detail?: string;
+  title?: string;
+  source?: {
+    parameter?: string;
+  };
+}
+
+/**
+ * Reads Apple's error entries from a failed response (empty when the body isn't JSON).
+ */
+async function readApiErrors(response: Response): Promise<ApiErrorEntry[]> {
+  const contentType = response.headers.get("content-type");
+
+  try {
+    if (contentType?.includes("application/json")) {
+      const errorData = await response.json();
+      return errorData.errors || [];
+    }
+  } catch {
+    // Fall back to the status text
+  }
+
+  return [];
+}
+
+/**
+ * Converts a failed response into a typed error.
+ */
+async function toError(response: Response, url: string, retries: number): Promise<AppStoreConnectError> {
+  const errors = await readApiErrors(response);
+  const detail = errors.map((e) => e.detail || e.title || "Unknown error").join(", ") ||
+    response.statusText ||
+    "Unknown error";
+
+  // Apple points at the offending parameter when the vendor number is wrong
+  const isVendorNumberError = errors.some((e) =>
+    e.source?.parameter === "filter[vendorNumber]" || /vendor number/i.test(e.detail ?? "")
+  );
+  if (isVendorNumberError && [400, 403, 404].includes(response.status)) {
+    return new VendorNumberError(response.status, detail, url);
+  }
+
+  switch (response.status) {
+    case 401:
+      return new AuthenticationError(detail, url);
+    case 403:
+      return new ForbiddenError(detail, url);
+    case 404:
+      return new NotFoundError(detail, url);
+    case 429: {
+      const retryAfterMs = getRetryAfterMs(response);
+      return new RateLimitedError(retries, retryAfterMs !== null ? Math.ceil(retryAfterMs / 1000) : null, url);
+    }
+  }
+
+  if (response.status >= 500) {
+    return new ServerError(response.status, detail, retries, url);
+  }
+  return new AppStoreConnectError(`API Error (${response.status}): ${detail}`, response.status, url);
+}
+
+/**
+ * Makes an authenticated GET request to the App Store Connect API.
+ *
+ * Rate limiting (429), server errors (5xx), timeouts and network failures are retried
+ * with exponential backoff, honouring Retry-After. Other failures, and the last failed
+ * attempt, throw an AppStoreConnectError subclass.
+ */
+export async function ascRequest(
+  credentials: AppStoreConnectConfig | AppManagerConfig,
+  url: string,
+  options: RequestOptions = {}
+): Promise<Response> {
+  const timeoutSeconds = options.timeoutSeconds ?? credentials.requestTimeoutSeconds;
+  const maxRetries = options.maxRetries ?? credentials.maxRetries;
+
+  for (let attempt = 0; ; attempt++) {
+    // Tokens are cached, so this only signs a new one when the previous is about to expire
+    const token = await generateToken(credentials);
+    let response: Response;
+
+    if (process.env.DEBUG) {
+      const retry = attempt > 0 ? `, retry ${attempt}` : "";
+      console.error(`[DEBUG] GET ${url} (key ID ${credentials.keyId}${retry})`);
+    }
+
+    try {
+      response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: options.accept ?? "application/json",
+        },
+        signal: timeoutSeconds > 0 ? AbortSignal.timeout(timeoutSeconds * 1000) : undefined,
+      });
+    } catch (error) {
+      const detail = (error as Error).name === "TimeoutError"
+        ? `no response within ${timeoutSeconds}s`
+        : (error as Error).message;
+
+      if (attempt >= maxRetries) {
+        throw new NetworkError(detail, attempt, url);
+      }
+
+      const delayMs = Math.min(getBackoffMs(attempt), MAX_RETRY_DELAY_MS);
+      console.error(`Note: App Store Connect request failed (${detail}), retrying in ${Math.ceil(delayMs / 1000)}s...`);
+      await sleep(delayMs);
+      continue;
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    const isRetryable = response.status === 429 || response.status >= 500;
+    if (!isRetryable || attempt >= maxRetries) {
+      throw await toError(response, url, attempt);
+    }
+
+    const delayMs = Math.min(getRetryAfterMs(response) ?? getBackoffMs(attempt), MAX_RETRY_DELAY_MS);
+    await response.body?.cancel();
+    console.error(`Note: App Store Connect returned ${response.status}, retrying in ${Math.ceil(delayMs / 1000)}s...`);
+    await sleep(delayMs);
+  }
+}
+
+/**
+ * Fetches every page of a list endpoint.
+ */
+export async function ascGetAllPages<T>(
+  credentials: AppStoreConnectConfig | AppManagerConfig,
+  initialUrl: string,
+  options: RequestOptions = {}
+): Promise<T[]> {
+  const allData: T[] = [];
+  let url: string | undefined = initialUrl;
+
+  while (url) {
+    const response = await ascRequest(credentials, url, options);
+    const json: ApiListResponse<T> = await response.json();
+    allData.push(...json.data);
+
+    url = json.links?.next;
+  }
+
+  return allData;
+}
+
+/**
+ * Downloads a report and returns it as text.
+ * Reports come as gzipped TSV, which is decompressed.
+ */
+export async function ascDownloadReport(
+  credentials: AppStoreConnectConfig,
+  url: string,
+  options: RequestOptions = {}
+): Promise<string> {
+  const response = await ascRequest(credentials, url, {
+    accept: "application/a-gzip, application/json",
+    ...options,
+  });
+
+  const contentType = response.headers.get("content-type");
+  const buffer = Buffer.from(await response.arrayBuffer());
+
+  if (contentType?.includes("gzip")) {
+    return gunzipSync(buffer).toString("utf-8");
+  }
+
+  // If not gzipped, return as-is
+  return buffer.toString("utf-8");
+}
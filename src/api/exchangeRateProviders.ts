@@ -0,0 +1,332 @@
+import { readFileSync } from "fs";
+import { getConfigDir, loadConfig, resolveConfigFilePath } from "../config/loader.js";
+import { ConfigurationError } from "../utils/errors.js";
+import { isBlankRecord, parseTsv } from "../utils/tsv.js";
+import type {
+  ExchangeRateProvider,
+  ExchangeRateProviderName,
+  ExchangeRatesResponse,
+  ExchangeRatesTimeSeriesResponse,
+} from "../types.js";
+
+const DEFAULT_FRANKFURTER_URL = "https://api.frankfurter.app";
+
+export const EXCHANGE_RATE_PROVIDERS: ExchangeRateProviderName[] = ["frankfurter", "ecb-csv", "manual"];
+
+/**
+ * A rate (or set of rates) valid from a date until the next entry.
+ */
+interface DatedEntry {
+  date: string;                         // YYYY-MM-DD
+}
+
+/**
+ * ECB reference rates for one day, quoted as units of currency per EUR.
+ */
+interface EcbDay extends DatedEntry {
+  rates: Map<string, number>;
+}
+
+/**
+ * One manually maintained rate.
+ */
+interface ManualRate extends DatedEntry {
+  from: string;
+  to: string;
+  rate: number;
+}
+
+// Created on first use; local providers read their rates file once per run
+let selectedProvider: ExchangeRateProvider | null = null;
+
+/**
+ * Gets the exchange rate provider selected in config.
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  selectedProvider ??= createConfiguredProvider();
+  return selectedProvider;
+}
+
+/**
+ * Creates the exchange rate provider selected in config.
+ */
+function createConfiguredProvider(): ExchangeRateProvider {
+  const config = loadConfig();
+
+  switch (config.fxProvider) {
+    case "frankfurter":
+      return createFrankfurterProvider(config.fxProviderUrl || DEFAULT_FRANKFURTER_URL);
+
+    case "ecb-csv":
+      return createEcbCsvProvider(requireRatesFile(config.fxRatesFile, "ecb-csv"));
+
+    case "manual":
+      return createManualRatesProvider(requireRatesFile(config.fxRatesFile, "manual"));
+
+    default:
+      throw new ConfigurationError(
+        `Unknown exchange rate provider "${config.fxProvider}". Use one of: ${EXCHANGE_RATE_PROVIDERS.join(", ")}`
+      );
+  }
+}
+
+/**
+ * Resolves the rates file a local provider reads from.
+ */
+function requireRatesFile(filePath: string | null, provider: ExchangeRateProviderName): string {
+  if (!filePath) {
+    throw new ConfigurationError(`The ${provider} exchange rate provider needs FX_RATES_FILE / fxRatesFile`);
+  }
+
+  const resolved = resolveConfigFilePath(filePath);
+  if (!resolved) {
+    throw new ConfigurationError(
+      `Exchange rates file not found: ${filePath} (relative paths are resolved against ${getConfigDir()})`
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Rates from the Frankfurter API (European Central Bank reference rates).
+ * The base URL can point at a self-hosted instance.
+ */
+export function createFrankfurterProvider(baseUrl: string): ExchangeRateProvider {
+  const apiUrl = baseUrl.replace(/\/+$/, "");
+
+  return {
+    name: "frankfurter",
+    cacheable: true,
+    source: `frankfurter:${apiUrl}`,
+
+    async getRate(baseCurrency, targetCurrency, date) {
+      const endpoint = date ? `/${date}` : "/latest";
+      const url = `${apiUrl}${endpoint}?from=${baseCurrency}&to=${targetCurrency}`;
+
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch exchange rate for ${baseCurrency}: ${response.statusText}`);
+      }
+
+      const data: ExchangeRatesResponse = await response.json();
+
+      const rate = data.rates[targetCurrency];
+      if (!rate) {
+        throw new Error(`No exchange rate found for ${baseCurrency} to ${targetCurrency}`);
+      }
+
+      return rate;
+    },
+
+    async getAverageRate(baseCurrency, targetCurrency, startDate, endDate) {
+      const url = `${apiUrl}/${startDate}..${endDate}?from=${baseCurrency}&to=${targetCurrency}`;
+
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch exchange rates for ${baseCurrency}: ${response.statusText}`);
+      }
+
+      const data: ExchangeRatesTimeSeriesResponse = await response.json();
+
+      const dailyRates = Object.values(data.rates)
+        .map((rates) => rates[targetCurrency])
+        .filter((rate): rate is number => typeof rate === "number");
+
+      if (dailyRates.length === 0) {
+        throw new Error(`No exchange rates found for ${baseCurrency} to ${targetCurrency}`);
+      }
+
+      return average(dailyRates);
+    },
+  };
+}
+
+/**
+ * Rates from the ECB historical reference rates CSV (eurofxref-hist.csv).
+ * Cross rates are derived through EUR, and weekends/holidays use the previous working day.
+ */
+export function createEcbCsvProvider(filePath: string): ExchangeRateProvider {
+  const days = parseEcbCsv(readFileSync(filePath, "utf-8"));
+
+  const crossRate = (day: EcbDay, baseCurrency: string, targetCurrency: string): number | null => {
+    const base = baseCurrency === "EUR" ? 1 : day.rates.get(baseCurrency);
+    const target = targetCurrency === "EUR" ? 1 : day.rates.get(targetCurrency);
+    return base && target ? target / base : null;
+  };
+
+  return {
+    name: "ecb-csv",
+    cacheable: false,
+    source: `ecb-csv:${filePath}`,
+
+    async getRate(baseCurrency, targetCurrency, date) {
+      const day = findOnOrBefore(days, date);
+      const rate = day ? crossRate(day, baseCurrency, targetCurrency) : null;
+
+      if (!rate) {
+        throw new Error(`No ECB rate for ${baseCurrency} to ${targetCurrency} on ${date ?? "latest"} in ${filePath}`);
+      }
+
+      return rate;
+    },
+
+    async getAverageRate(baseCurrency, targetCurrency, startDate, endDate) {
+      const dailyRates = days
+        .filter((day) => day.date >= startDate && day.date <= endDate)
+        .map((day) => crossRate(day, baseCurrency, targetCurrency))
+        .filter((rate): rate is number => rate !== null);
+
+      if (dailyRates.length === 0) {
+        throw new Error(`No ECB rates for ${baseCurrency} to ${targetCurrency} between ${startDate} and ${endDate}`);
+      }
+
+      return average(dailyRates);
+    },
+  };
+}
+
+/**
+ * Rates from a user-maintained JSON or CSV file (e.g. the bank's actual conversion rates).
+ * Each rate applies from its date until the next rate for the same pair; inverse pairs are derived.
+ */
+export function createManualRatesProvider(filePath: string): ExchangeRateProvider {
+  const rates = parseManualRates(readFileSync(filePath, "utf-8"), filePath);
+
+  const ratesForPair = (baseCurrency: string, targetCurrency: string): ManualRate[] =>
+    rates.flatMap((entry): ManualRate[] => {
+      if (entry.from === baseCurrency && entry.to === targetCurrency) {
+        return [entry];
+      }
+      if (entry.from === targetCurrency && entry.to === baseCurrency) {
+        return [{ ...entry, from: baseCurrency, to: targetCurrency, rate: 1 / entry.rate }];
+      }
+      return [];
+    });
+
+  const getRate = async (baseCurrency: string, targetCurrency: string, date?: string) => {
+    const entry = findOnOrBefore(ratesForPair(baseCurrency, targetCurrency), date);
+
+    if (!entry) {
+      throw new Error(`No manual rate for ${baseCurrency} to ${targetCurrency} on ${date ?? "latest"} in ${filePath}`);
+    }
+
+    return entry.rate;
+  };
+
+  return {
+    name: "manual",
+    cacheable: false,
+    source: `manual:${filePath}`,
+    getRate,
+
+    async getAverageRate(baseCurrency, targetCurrency, startDate, endDate) {
+      const periodRates = ratesForPair(baseCurrency, targetCurrency)
+        .filter((entry) => entry.date >= startDate && entry.date <= endDate)
+        .map((entry) => entry.rate);
+
+      // A single rate per month is common for manual files, so fall back to the rate in effect
+      return periodRates.length > 0 ? average(periodRates) : getRate(baseCurrency, targetCurrency, endDate);
+    },
+  };
+}
+
+/**
+ * Parses the ECB historical CSV: "Date,USD,JPY,..." with one row per working day.
+ */
+function parseEcbCsv(content: string): EcbDay[] {
+  const lines = content.trim().split(/\r?\n/);
+  const currencies = lines[0].split(",").map((column) => column.trim());
+  const days: EcbDay[] = [];
+
+  for (const line of lines.slice(1)) {
+    const values = line.split(",").map((value) => value.trim());
+    const rates = new Map<string, number>();
+
+    currencies.forEach((currency, index) => {
+      const rate = parseFloat(values[index]);
+      if (index > 0 && currency && !isNaN(rate)) {
+        rates.set(currency, rate);
+      }
+    });
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(values[0])) {
+      days.push({ date: values[0], rates });
+    }
+  }
+
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Parses a manual rates file.
+ * JSON: [{ "date": "2025-09-30", "from": "EUR", "to": "USD", "rate": 1.17 }] (or { "rates": [...] })
+ * CSV: a "date,from,to,rate" header followed by one rate per line
+ */
+function parseManualRates(content: string, filePath: string): ManualRate[] {
+  let entries: Array<Record<string, unknown>>;
+
+  if (content.trim().startsWith("[") || content.trim().startsWith("{")) {
+    let parsed;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigurationError(`Could not parse ${filePath}: ${(error as Error).message}`, null);
+    }
+    entries = Array.isArray(parsed) ? parsed : parsed.rates ?? [];
+  } else {
+    const [header = [], ...records] = parseTsv(content, ",").filter((record) => !isBlankRecord(record));
+    const columns = header.map((column) => column.trim().toLowerCase());
+
+    if (records.length === 0) {
+      throw new ConfigurationError(`Could not parse ${filePath}: expected a "date,from,to,rate" header and at least one rate`, null);
+    }
+
+    entries = records.map((record) =>
+      Object.fromEntries(columns.map((column, index) => [column, (record[index] ?? "").trim()]))
+    );
+  }
+
+  const rates = entries.map((entry, index): ManualRate => {
+    const rate = Number(entry.rate);
+    const date = String(entry.date ?? "");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !entry.from || !entry.to || !(rate > 0)) {
+      throw new ConfigurationError(
+        `Invalid rate #${index + 1} in ${filePath}: expected date (YYYY-MM-DD), from, to and rate`,
+        null
+      );
+    }
+    return {
+      date,
+      from: String(entry.from).toUpperCase(),
+      to: String(entry.to).toUpperCase(),
+      rate,
+    };
+  });
+
+  return rates.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Finds the last entry on or before a date (entries sorted by date).
+ * Without a date, returns the most recent entry.
+ */
+function findOnOrBefore<T extends DatedEntry>(entries: T[], date?: string): T | null {
+  let found: T | null = null;
+
+  for (const entry of entries) {
+    if (date && entry.date > date) break;
+    found = entry;
+  }
+
+  return found;
+}
+
+/**
+ * Averages a non-empty list of rates.
+ */
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
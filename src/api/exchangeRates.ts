@@ -1,7 +1,30 @@
-import type { AppEarnings, ExchangeRatesResponse } from "../types.js";
+import type { AppEarnings, ExchangeRateProvider, ExchangeRateResult } from "../types.js";
 import { loadConfig } from "../config/loader.js";
+import { OfflineDataMissingError } from "../utils/cache.js";
+import { getRateCacheKey, readCachedRate, writeCachedRate } from "../utils/exchangeRateCache.js";
+import { getExchangeRateProvider } from "./exchangeRateProviders.js";
+import { getCurrencyExponent } from "../utils/money.js";
+import { CliError, EXIT_CODES } from "../utils/errors.js";
 
-const FRANKFURTER_API_URL = "https://api.frankfurter.app";
+export interface ExchangeRateOptions {
+  offline?: boolean;                    // Only use cached rates (--offline)
+  strict?: boolean;                     // Fail instead of converting 1:1 when a rate is missing
+}
+
+/**
+ * Error class for when exchange rates are missing in strict mode.
+ */
+export class ExchangeRateUnavailableError extends CliError {
+  constructor(targetCurrency: string, failures: Array<{ currency: string; reason: string }>) {
+    super(
+      `Could not get exchange rates to ${targetCurrency} for:\n` +
+      failures.map(({ currency, reason }) => `  - ${currency}: ${reason}`).join("\n"),
+      EXIT_CODES.exchangeRate,
+      "Run with --lenient-fx to convert these 1:1 and mark the totals as incomplete, or configure another rate provider."
+    );
+    this.name = "ExchangeRateUnavailableError";
+  }
+}
 
 /**
  * Gets the target currency from config, defaulting to USD.
@@ -12,49 +35,59 @@ export function getTargetCurrency(): string {
 }
 
 /**
- * Fetches exchange rates from the Frankfurter API.
- * Uses the European Central Bank rates.
- * 
- * @param baseCurrency - The base currency to convert from
- * @param date - Optional date for historical rates (YYYY-MM-DD format)
+ * Fetches exchange rates for multiple currencies from the configured provider.
+ * Rates are requested per base currency, in parallel.
  */
-async function fetchRate(baseCurrency: string, date?: string): Promise<number> {
-  const targetCurrency = getTargetCurrency();
-  
-  // Same currency is always 1:1
-  if (baseCurrency === targetCurrency) {
-    return 1;
-  }
-  
-  const endpoint = date ? `/${date}` : "/latest";
-  const url = `${FRANKFURTER_API_URL}${endpoint}?from=${baseCurrency}&to=${targetCurrency}`;
-  
-  const response = await fetch(url);
-  
-  if (!response.ok) {
-    throw new Error(`Failed to fetch exchange rate for ${baseCurrency}: ${response.statusText}`);
-  }
-  
-  const data: ExchangeRatesResponse = await response.json();
-  
-  const rate = data.rates[targetCurrency];
-  if (!rate) {
-    throw new Error(`No exchange rate found for ${baseCurrency} to ${targetCurrency}`);
-  }
-  
-  return rate;
+export async function fetchExchangeRates(
+  currencies: string[],
+  date?: string,
+  options: ExchangeRateOptions = {}
+): Promise<ExchangeRateResult> {
+  return fetchRatesWith(
+    currencies,
+    date ?? "latest",
+    (provider, currency, targetCurrency) => provider.getRate(currency, targetCurrency, date),
+    options
+  );
 }
 
 /**
- * Fetches exchange rates for multiple currencies in a single request.
- * Frankfurter API supports multiple target currencies, but we need multiple base currencies,
- * so we make parallel requests.
+ * Fetches the average rate over a period for multiple currencies.
  */
-export async function fetchExchangeRates(
+export async function fetchAverageExchangeRates(
   currencies: string[],
-  date?: string
-): Promise<Map<string, number>> {
+  startDate: string,
+  endDate: string,
+  options: ExchangeRateOptions = {}
+): Promise<ExchangeRateResult> {
+  return fetchRatesWith(
+    currencies,
+    `${startDate}..${endDate}`,
+    (provider, currency, targetCurrency) =>
+      provider.getAverageRate(currency, targetCurrency, startDate, endDate),
+    options
+  );
+}
+
+/**
+ * Gets a rate per currency in parallel.
+ * A rate that can't be fetched is an error in strict mode, otherwise it falls back to 1:1
+ * and the currency is reported in failedCurrencies.
+ * Rates from remote providers are read from and written to the on-disk cache, keyed by
+ * the period they cover. In offline mode any such rate missing from the cache is an error instead.
+ */
+async function fetchRatesWith(
+  currencies: string[],
+  period: string,
+  fetchCurrencyRate: (
+    provider: ExchangeRateProvider,
+    currency: string,
+    targetCurrency: string
+  ) => Promise<number>,
+  options: ExchangeRateOptions
+): Promise<ExchangeRateResult> {
   const targetCurrency = getTargetCurrency();
+  const provider = getExchangeRateProvider();
   const rates = new Map<string, number>();
   
   // Filter out target currency since it's always 1:1
@@ -64,27 +97,59 @@ export async function fetchExchangeRates(
   rates.set(targetCurrency, 1);
   
   if (currenciesToFetch.length === 0) {
-    return rates;
+    return { rates, failedCurrencies: [] };
   }
   
   // Fetch rates in parallel
   const ratePromises = currenciesToFetch.map(async (currency) => {
+    const cacheKey = getRateCacheKey(provider.source, currency, targetCurrency, period);
+    
+    if (provider.cacheable) {
+      const cachedRate = readCachedRate(cacheKey, options.offline);
+      
+      if (cachedRate !== null) {
+        return { currency, rate: cachedRate, failure: null };
+      }
+      
+      if (options.offline) {
+        return { currency, rate: null, failure: null };
+      }
+    }
+    
     try {
-      const rate = await fetchRate(currency, date);
-      return { currency, rate };
+      const rate = await fetchCurrencyRate(provider, currency, targetCurrency);
+      if (provider.cacheable) {
+        writeCachedRate(cacheKey, rate);
+      }
+      return { currency, rate, failure: null };
     } catch (error) {
-      console.warn(`Warning: Could not fetch rate for ${currency}, using 1:1`);
-      return { currency, rate: 1 };
+      return { currency, rate: 1, failure: `${(error as Error).message} (${provider.name})` };
     }
   });
   
   const results = await Promise.all(ratePromises);
   
+  const missing = results.filter(({ rate }) => rate === null).map(({ currency }) => currency);
+  if (missing.length > 0) {
+    throw new OfflineDataMissingError(
+      `No cached ${missing.join(", ")} to ${targetCurrency} exchange rates for ${period}.`
+    );
+  }
+  
+  const failures = results.flatMap(({ currency, failure }) => (failure ? [{ currency, reason: failure }] : []));
+  if (failures.length > 0 && options.strict) {
+    throw new ExchangeRateUnavailableError(targetCurrency, failures);
+  }
+  
+  for (const { currency, reason } of failures) {
+    console.warn(`Warning: Could not get ${currency} rate: ${reason}. Using 1:1, totals are incomplete`);
+  }
+  
   for (const { currency, rate } of results) {
-    rates.set(currency, rate);
+    rates.set(currency, rate!);
   }
   
-  return rates;
+  return { rates, failedCurrencies: failures.map(({ currency }) => currency) };
 }
 
 /**
@@ -109,8 +174,21 @@ export function convertToTargetCurrency(
   });
 }
 
+/**
+ * Formats an amount in a specific currency (e.g. region amounts in payment summaries).
+ */
+export function formatCurrencyAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${amount.toFixed(getCurrencyExponent(currency))} ${currency}`;
+  }
+}
+
 /**
  * Formats a number as currency using the target currency.
+ * This is where converted amounts are rounded, to the currency's minor units.
  */
 export function formatCurrency(amount: number): string {
   const targetCurrency = getTargetCurrency();
@@ -137,8 +215,12 @@ export function formatCurrency(amount: number): string {
   
   const locale = localeMap[targetCurrency] || "en-US";
   
+  const fractionDigits = getCurrencyExponent(targetCurrency);
+  
   return new Intl.NumberFormat(locale, {
     style: "currency",
     currency: targetCurrency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
   }).format(amount);
 }
@@ -1,8 +1,22 @@
-import { gunzipSync } from "zlib";
-import { generateToken } from "./auth.js";
+import { API_BASE_URL, ascDownloadReport, NotFoundError } from "./client.js";
+import { CliError, EXIT_CODES } from "../utils/errors.js";
 import type { AppStoreConnectConfig, CalendarMonth } from "../types.js";
 
-const BASE_URL = "https://api.appstoreconnect.apple.com/v1/financeReports";
+const BASE_URL = `${API_BASE_URL}/financeReports`;
+
+/**
+ * Builds the request URL for a month's financial report in a region.
+ */
+function getReportUrl(config: AppStoreConnectConfig, month: CalendarMonth, regionCode: string): string {
+  const queryString = new URLSearchParams({
+    "filter[regionCode]": regionCode,
+    "filter[reportDate]": month.reportDate,
+    "filter[reportType]": "FINANCIAL",
+    "filter[vendorNumber]": config.vendorNumber,
+  }).toString();
+
+  return `${BASE_URL}?${queryString}`;
+}
 
 /**
  * Downloads a financial report from the App Store Connect API.
@@ -16,53 +30,9 @@ export async function downloadFinanceReport(
   config: AppStoreConnectConfig,
   month: CalendarMonth
 ): Promise<string> {
-  const token = await generateToken(config);
-
   // Finance Reports use regionCode instead of just vendorNumber
   // Use ZZ for consolidated report (all regions)
-  const queryString = new URLSearchParams({
-    "filter[regionCode]": "ZZ", // ZZ = All regions consolidated
-    "filter[reportDate]": month.reportDate,
-    "filter[reportType]": "FINANCIAL",
-    "filter[vendorNumber]": config.vendorNumber,
-  }).toString();
-
-  const url = `${BASE_URL}?${queryString}`;
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/a-gzip, application/json",
-    },
-  });
-
-  if (!response.ok) {
-    // Try to parse error response
-    const contentType = response.headers.get("content-type");
-    if (contentType?.includes("application/json")) {
-      const errorData = await response.json();
-      const errors = errorData.errors || [];
-      const errorMessages = errors.map((e: { detail?: string; title?: string }) => 
-        e.detail || e.title || "Unknown error"
-      ).join(", ");
-      throw new Error(`API Error (${response.status}): ${errorMessages}`);
-    }
-    throw new Error(`API Error (${response.status}): ${response.statusText}`);
-  }
-  
-  // Check if response is gzipped
-  const contentType = response.headers.get("content-type");
-  const buffer = await response.arrayBuffer();
-
-  if (contentType?.includes("gzip") || contentType?.includes("application/a-gzip")) {
-    // Decompress gzipped response
-    const decompressed = gunzipSync(Buffer.from(buffer));
-    return decompressed.toString("utf-8");
-  }
-
-  // If not gzipped, return as-is
-  return Buffer.from(buffer).toString("utf-8");
+  return ascDownloadReport(config, getReportUrl(config, month, "ZZ"));
 }
 
 /**
@@ -81,59 +51,19 @@ export async function downloadRegionFinanceReport(
   month: CalendarMonth,
   regionCode: string
 ): Promise<string> {
-  const token = await generateToken(config);
-  
-  const queryString = new URLSearchParams({
-    "filter[regionCode]": regionCode,
-    "filter[reportDate]": month.reportDate,
-    "filter[reportType]": "FINANCIAL",
-    "filter[vendorNumber]": config.vendorNumber,
-  }).toString();
-  
-  const url = `${BASE_URL}?${queryString}`;
-  
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/a-gzip, application/json",
-    },
-  });
-  
-  if (!response.ok) {
-    // Try to parse error response
-    const contentType = response.headers.get("content-type");
-    if (contentType?.includes("application/json")) {
-      const errorData = await response.json();
-      const errors = errorData.errors || [];
-      const errorMessages = errors.map((e: { detail?: string; title?: string }) => 
-        e.detail || e.title || "Unknown error"
-      ).join(", ");
-      throw new Error(`API Error (${response.status}): ${errorMessages}`);
-    }
-    throw new Error(`API Error (${response.status}): ${response.statusText}`);
-  }
-  
-  // Check if response is gzipped
-  const contentType = response.headers.get("content-type");
-  const buffer = await response.arrayBuffer();
-  
-  if (contentType?.includes("gzip") || contentType?.includes("application/a-gzip")) {
-    // Decompress gzipped response
-    const decompressed = gunzipSync(Buffer.from(buffer));
-    return decompressed.toString("utf-8");
-  }
-  
-  // If not gzipped, return as-is
-  return Buffer.from(buffer).toString("utf-8");
+  return ascDownloadReport(config, getReportUrl(config, month, regionCode));
 }
 
 /**
  * Error class for when no report is available for the requested period.
  */
-export class NoReportAvailableError extends Error {
+export class NoReportAvailableError extends CliError {
   constructor(month: CalendarMonth) {
-    super(`No financial report available for ${month.displayName}. Reports are typically available by the 5th of the following month.`);
+    super(
+      `No financial report available for ${month.displayName}.`,
+      EXIT_CODES.reportNotAvailable,
+      "Reports are typically available by the 5th of the following month."
+    );
     this.name = "NoReportAvailableError";
   }
 }
@@ -148,11 +78,9 @@ export async function fetchFinanceReport(
   try {
     return await downloadFinanceReport(config, month);
   } catch (error) {
-    if (error instanceof Error) {
-      // Apple returns 404 when no report exists
-      if (error.message.includes("404") || error.message.toLowerCase().includes("not found")) {
-        throw new NoReportAvailableError(month);
-      }
+    // Apple returns 404 when no report exists
+    if (error instanceof NotFoundError) {
+      throw new NoReportAvailableError(month);
     }
     throw error;
   }
@@ -161,6 +89,7 @@ export async function fetchFinanceReport(
 /**
  * Fetches a region-specific financial report for payment information.
  * Returns null if the report is not available (graceful failure).
+ * A region without a report (e.g. not paid yet) is expected and not mentioned.
  * 
  * @param config - App Store Connect configuration
  * @param month - The calendar month to fetch
@@ -177,7 +106,7 @@ export async function fetchRegionFinanceReport(
   } catch (error) {
     // Return null for any errors - payment info is optional
     // The main earnings display will still work
-    if (error instanceof Error) {
+    if (error instanceof Error && !(error instanceof NotFoundError)) {
       // Log for debugging but don't throw
       console.error(`Note: Could not fetch payment info for region ${regionCode}: ${error.message}`);
     }
@@ -1,8 +1,8 @@
-import { gunzipSync } from "zlib";
-import { generateToken } from "./auth.js";
+import { API_BASE_URL, ascDownloadReport, NotFoundError } from "./client.js";
+import { CliError, EXIT_CODES } from "../utils/errors.js";
 import type { AppStoreConnectConfig, FiscalMonth } from "../types.js";
 
-const BASE_URL = "https://api.appstoreconnect.apple.com/v1/salesReports";
+const BASE_URL = `${API_BASE_URL}/salesReports`;
 
 interface SalesReportParams {
   frequency: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
@@ -21,8 +21,6 @@ export async function downloadSalesReport(
   config: AppStoreConnectConfig,
   fiscalMonth: FiscalMonth
 ): Promise<string> {
-  const token = generateToken(config);
-  
   const params: SalesReportParams = {
     frequency: "MONTHLY",
     reportSubType: "SUMMARY",
@@ -41,48 +39,19 @@ export async function downloadSalesReport(
   }).toString();
   const url = `${BASE_URL}?${queryString}`;
   
-  const response = await fetch(url, {
-    method: "GET",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/a-gzip, application/json",
-    },
-  });
-  
-  if (!response.ok) {
-    // Try to parse error response
-    const contentType = response.headers.get("content-type");
-    if (contentType?.includes("application/json")) {
-      const errorData = await response.json();
-      const errors = errorData.errors || [];
-      const errorMessages = errors.map((e: { detail?: string; title?: string }) => 
-        e.detail || e.title || "Unknown error"
-      ).join(", ");
-      throw new Error(`API Error (${response.status}): ${errorMessages}`);
-    }
-    throw new Error(`API Error (${response.status}): ${response.statusText}`);
-  }
-  
-  // Check if response is gzipped
-  const contentType = response.headers.get("content-type");
-  const buffer = await response.arrayBuffer();
-  
-  if (contentType?.includes("gzip") || contentType?.includes("application/a-gzip")) {
-    // Decompress gzipped response
-    const decompressed = gunzipSync(Buffer.from(buffer));
-    return decompressed.toString("utf-8");
-  }
-  
-  // If not gzipped, return as-is
-  return Buffer.from(buffer).toString("utf-8");
+  return ascDownloadReport(config, url);
 }
 
 /**
  * Error class for when no report is available for the requested period.
  */
-export class NoReportAvailableError extends Error {
+export class NoReportAvailableError extends CliError {
   constructor(fiscalMonth: FiscalMonth) {
-    super(`No sales report available for ${fiscalMonth.displayName}. Reports may take a few days to become available after the fiscal month ends.`);
+    super(
+      `No sales report available for ${fiscalMonth.displayName}.`,
+      EXIT_CODES.reportNotAvailable,
+      "Reports may take a few days to become available after the fiscal month ends."
+    );
     this.name = "NoReportAvailableError";
   }
 }
@@ -97,11 +66,9 @@ export async function fetchSalesReport(
   try {
     return await downloadSalesReport(config, fiscalMonth);
   } catch (error) {
-    if (error instanceof Error) {
-      // Apple returns 404 when no report exists
-      if (error.message.includes("404") || error.message.toLowerCase().includes("not found")) {
-        throw new NoReportAvailableError(fiscalMonth);
-      }
+    // Apple returns 404 when no report exists
+    if (error instanceof NotFoundError) {
+      throw new NoReportAvailableError(fiscalMonth);
     }
     throw error;
   }
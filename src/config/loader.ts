@@ -1,6 +1,7 @@
 import { existsSync, readFileSync, mkdirSync } from "fs";
-import { join } from "path";
+import { isAbsolute, join } from "path";
 import { homedir } from "os";
+import { ConfigurationError, PrivateKeyError } from "../utils/errors.js";
 import type { AppStoreConnectConfig, AppManagerConfig } from "../types.js";
 
 const APP_NAME = "appstore-earnings-cli";
@@ -17,6 +18,13 @@ export interface ConfigFile {
   appManagerKeyId?: string;
   appManagerPrivateKeyPath?: string;
   targetCurrency?: string;
+  fxRateStrategy?: string;
+  fxProvider?: string;                  // frankfurter (default), ecb-csv or manual
+  fxProviderUrl?: string;               // Frankfurter base URL
+  fxRatesFile?: string;                 // Rates file for ecb-csv and manual
+  requestTimeoutSeconds?: number;       // Per-request timeout for App Store Connect
+  maxRetries?: number;                  // Retries on rate limiting, server errors and timeouts
+  mappingConcurrency?: number;          // Apps fetched in parallel while building the product mapping
 }
 
 /**
@@ -138,7 +146,7 @@ export function resolvePrivateKey(keyPathOrContent: string): string {
     return readFileSync(cwdRelativePath, "utf-8");
   }
 
-  throw new Error(
+  throw new PrivateKeyError(
     `Private key not found: ${keyPathOrContent}\n` +
     `Tried:\n` +
     `  - ${keyPathOrContent} (absolute)\n` +
@@ -147,6 +155,16 @@ export function resolvePrivateKey(keyPathOrContent: string): string {
   );
 }
 
+/**
+ * Resolves a data file path from config: absolute, or relative to the config dir.
+ * Relative paths never depend on the directory the CLI runs from.
+ * Returns null if the file doesn't exist.
+ */
+export function resolveConfigFilePath(filePath: string): string | null {
+  const resolved = isAbsolute(filePath) ? filePath : join(getConfigDir(), filePath);
+  return existsSync(resolved) ? resolved : null;
+}
+
 /**
  * Resolves a private key path for storage in config.
  * Returns the path to store (either absolute or relative to config dir).
@@ -189,6 +207,13 @@ export interface LoadedConfig {
 
   // Settings
   targetCurrency: string;
+  fxRateStrategy: string;
+  fxProvider: string;
+  fxProviderUrl: string | null;
+  fxRatesFile: string | null;
+  requestTimeoutSeconds: number;
+  maxRetries: number;
+  mappingConcurrency: number;
 
   // Source tracking for debugging
   source: "env" | "dotenv" | "config" | "none";
@@ -210,7 +235,14 @@ export function loadConfig(): LoadedConfig {
 
   // Helper to get value with priority chain
   const get = (envKey: string, configKey: keyof ConfigFile): string | null => {
-    return envVars[envKey] || dotenvVars[envKey] || configFile[configKey] || null;
+    const value = envVars[envKey] || dotenvVars[envKey] || configFile[configKey];
+    return value || value === 0 ? String(value) : null;
+  };
+
+  // Numeric settings fall back to their default when missing or invalid
+  const getNumber = (envKey: string, configKey: keyof ConfigFile, defaultValue: number): number => {
+    const value = Number(get(envKey, configKey) ?? NaN);
+    return Number.isFinite(value) && value >= 0 ? value : defaultValue;
   };
 
   // Determine primary source for tracking
@@ -237,6 +269,13 @@ export function loadConfig(): LoadedConfig {
 
     // Settings
     targetCurrency: get("TARGET_CURRENCY", "targetCurrency") || "USD",
+    fxRateStrategy: get("FX_RATE_STRATEGY", "fxRateStrategy") || "period-end",
+    fxProvider: get("FX_PROVIDER", "fxProvider") || "frankfurter",
+    fxProviderUrl: get("FX_PROVIDER_URL", "fxProviderUrl"),
+    fxRatesFile: get("FX_RATES_FILE", "fxRatesFile"),
+    requestTimeoutSeconds: getNumber("ASC_TIMEOUT_SECONDS", "requestTimeoutSeconds", 60),
+    maxRetries: getNumber("ASC_MAX_RETRIES", "maxRetries", 3),
+    mappingConcurrency: getNumber("ASC_MAPPING_CONCURRENCY", "mappingConcurrency", 4),
 
     source,
   };
@@ -255,13 +294,13 @@ export function validateFinanceConfig(config: LoadedConfig): AppStoreConnectConf
   if (!config.vendorNumber) missing.push("ASC_VENDOR_NUMBER / vendorNumber");
 
   if (missing.length > 0) {
-    throw new Error(
+    throw new ConfigurationError(
       `Missing required configuration: ${missing.join(", ")}\n\n` +
       `Configuration can be provided via:\n` +
       `  1. Environment variables (ASC_ISSUER_ID, ASC_KEY_ID, etc.)\n` +
       `  2. .env file in current directory\n` +
-      `  3. Config file at ${join(getConfigDir(), "config.json")}\n\n` +
-      `Run with --setup to configure interactively.`
+      `  3. Config file at ${join(getConfigDir(), "config.json")}`,
+      "Run with --setup to configure interactively."
     );
   }
 
@@ -270,6 +309,8 @@ export function validateFinanceConfig(config: LoadedConfig): AppStoreConnectConf
     keyId: config.keyId!,
     privateKeyPath: config.privateKeyPath!,
     vendorNumber: config.vendorNumber!,
+    requestTimeoutSeconds: config.requestTimeoutSeconds,
+    maxRetries: config.maxRetries,
   };
 }
 
@@ -303,6 +344,8 @@ export function validateAppManagerConfig(config: LoadedConfig): AppManagerConfig
     issuerId: appManagerIssuerId!,
     keyId: appManagerKeyId!,
     privateKeyPath: appManagerPrivateKeyPath!,
+    requestTimeoutSeconds: config.requestTimeoutSeconds,
+    maxRetries: config.maxRetries,
   };
 }
 
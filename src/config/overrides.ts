@@ -0,0 +1,92 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { getConfigDir } from "./loader.js";
+import { ConfigurationError } from "../utils/errors.js";
+import type { GroupingOverrides } from "../types.js";
+
+export const NO_GROUPING_OVERRIDES: GroupingOverrides = { products: {}, apps: {} };
+
+// Fields allowed for each kind of override (anything else is most likely a typo)
+const PRODUCT_FIELDS = ["parentAppId", "title"];
+const APP_FIELDS = ["title", "mergeInto", "portfolio"];
+
+/**
+ * Gets the path of the grouping overrides file.
+ * Uses XDG-compliant location: ~/.config/appstore-earnings-cli/overrides.json
+ */
+export function getOverridesFilePath(): string {
+  return join(getConfigDir(), "overrides.json");
+}
+
+/**
+ * Checks a section of the overrides file ("products" or "apps").
+ * Returns a description of every problem found.
+ */
+function validateSection(section: string, value: unknown, allowedFields: string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [`"${section}" must be an object keyed by ${section === "apps" ? "app Apple ID" : "SKU or Apple ID"}`];
+  }
+
+  const problems: string[] = [];
+
+  for (const [key, override] of Object.entries(value)) {
+    if (typeof override !== "object" || override === null || Array.isArray(override)) {
+      problems.push(`${section}.${key} must be an object`);
+      continue;
+    }
+
+    for (const [field, fieldValue] of Object.entries(override)) {
+      if (!allowedFields.includes(field)) {
+        problems.push(`${section}.${key}.${field} is not supported (expected ${allowedFields.join(", ")})`);
+      } else if (typeof fieldValue !== "string" || !fieldValue.trim()) {
+        problems.push(`${section}.${key}.${field} must be a non-empty string`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Loads the grouping overrides (product remaps, app and product names, portfolios).
+ * A missing file means no overrides; an invalid one is a configuration error.
+ */
+export function loadGroupingOverrides(): GroupingOverrides {
+  const filePath = getOverridesFilePath();
+
+  if (!existsSync(filePath)) {
+    return NO_GROUPING_OVERRIDES;
+  }
+
+  let parsed: Partial<GroupingOverrides>;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new ConfigurationError(
+      `Could not read grouping overrides from ${filePath}: ${(error as Error).message}`,
+      "Fix the JSON, or remove the file to group products by the product mapping alone."
+    );
+  }
+
+  const problems = typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+    ? [
+      ...validateSection("products", parsed.products, PRODUCT_FIELDS),
+      ...validateSection("apps", parsed.apps, APP_FIELDS),
+    ]
+    : ["The file must contain a JSON object with \"products\" and/or \"apps\""];
+
+  if (problems.length > 0) {
+    throw new ConfigurationError(
+      `Invalid grouping overrides in ${filePath}:\n` + problems.map((problem) => `  - ${problem}`).join("\n"),
+      "See the Grouping Overrides section of the README for the file format."
+    );
+  }
+
+  return {
+    products: parsed.products ?? {},
+    apps: parsed.apps ?? {},
+  };
+}
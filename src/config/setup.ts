@@ -1,7 +1,8 @@
 import { existsSync, readFileSync, writeFileSync, copyFileSync, mkdirSync } from "fs";
-import { join, basename } from "path";
+import { join, basename, resolve } from "path";
 import { input, confirm, select } from "@inquirer/prompts";
 import { getConfigDir, ensureDir, type ConfigFile } from "./loader.js";
+import { getOverridesFilePath } from "./overrides.js";
 
 /**
  * Validates that a file exists and is readable.
@@ -227,6 +228,33 @@ export async function runSetupWizard(): Promise<void> {
     finalCurrency = finalCurrency.toUpperCase();
   }
 
+  // Exchange rate provider
+  const fxProvider = await select({
+    message: "Exchange rate source:",
+    choices: [
+      { name: "Frankfurter API (ECB reference rates, default)", value: "frankfurter" },
+      { name: "ECB historical CSV file (eurofxref-hist.csv)", value: "ecb-csv" },
+      { name: "Manual rates file (JSON or CSV, e.g. your bank's rates)", value: "manual" },
+    ],
+  });
+
+  let fxConfig: Partial<ConfigFile> = {};
+
+  if (fxProvider === "frankfurter") {
+    const fxProviderUrl = await input({
+      message: "Frankfurter API URL:",
+      default: "https://api.frankfurter.app",
+    });
+    fxConfig = fxProviderUrl === "https://api.frankfurter.app" ? {} : { fxProvider, fxProviderUrl };
+  } else {
+    const fxRatesFile = await input({
+      message: "Path to rates file:",
+      validate: validateFileExists,
+    });
+    // Stored absolute, since it was checked against the current directory
+    fxConfig = { fxProvider, fxRatesFile: resolve(fxRatesFile) };
+  }
+
   // Build config object
   const config: ConfigFile = {
     issuerId,
@@ -234,6 +262,7 @@ export async function runSetupWizard(): Promise<void> {
     privateKeyPath: finalKeyPath,
     vendorNumber,
     targetCurrency: finalCurrency,
+    ...fxConfig,
     ...appManagerConfig,
   };
 
@@ -268,6 +297,8 @@ export function showConfigStatus(): void {
       console.log(`  Vendor Number: ${config.vendorNumber ? "configured" : "missing"}`);
       console.log(`  App Manager: ${config.appManagerKeyId ? "configured" : "not configured"}`);
       console.log(`  Currency: ${config.targetCurrency || "USD (default)"}`);
+      console.log(`  Exchange Rates: ${config.fxRateStrategy || "period-end (default)"}`);
+      console.log(`  Rate Provider: ${config.fxProvider || "frankfurter (default)"}`);
     } catch {
       console.log("  (Error reading config file)");
     }
@@ -276,6 +307,12 @@ export function showConfigStatus(): void {
     console.log(`  Expected location: ${configPath}`);
   }
 
+  // Check for grouping overrides
+  const overridesPath = getOverridesFilePath();
+  if (existsSync(overridesPath)) {
+    console.log(`\n  Grouping overrides: ${overridesPath}`);
+  }
+
   // Check for .env file
   const envPath = join(process.cwd(), ".env");
   if (existsSync(envPath)) {
@@ -1,26 +1,94 @@
+import { writeFileSync } from "fs";
 import { select } from "@inquirer/prompts";
 
 import { loadConfig, loadAppManagerConfig } from "./api/auth.js";
-import { fetchFinanceReport, NoReportAvailableError } from "./api/financeReports.js";
-import { fetchExchangeRates, formatCurrency, getTargetCurrency } from "./api/exchangeRates.js";
-import { buildProductMapping, type ProductInfo } from "./api/appStore.js";
-import { getRecentCalendarMonths } from "./utils/calendarMonths.js";
+import {
+  fetchFinanceReport,
+  fetchRegionFinanceReport,
+  NoReportAvailableError,
+} from "./api/financeReports.js";
+import { formatCurrency, getTargetCurrency } from "./api/exchangeRates.js";
+import {
+  buildProductMapping,
+  updateProductMapping,
+  type ProductInfo,
+  type ProductMappingResult,
+} from "./api/appStore.js";
+import {
+  getRecentCalendarMonths,
+  parseCalendarMonth,
+  parseCalendarMonthRange,
+  shiftCalendarMonth,
+} from "./utils/calendarMonths.js";
 import {
   parseFinanceReport,
+  parseFinanceReportSections,
   aggregateByProduct,
   getUniqueCurrencies,
   convertProducts,
   parsePaymentInfo,
+  getAverageProceedsPerUnit,
 } from "./utils/parseFinanceReport.js";
-import { isCached, readCache, writeCache } from "./utils/cache.js";
+import { isCached, readCache, writeCache, OfflineDataMissingError } from "./utils/cache.js";
+import { formatEarningsJson } from "./utils/jsonOutput.js";
+import { formatEarningsDelimited } from "./utils/delimitedOutput.js";
+import { getUnmappedProducts, groupByParentApp } from "./utils/productGrouping.js";
+import { buildDemoReport, buildDemoProductMapping, buildDemoRegionReports } from "./utils/demoData.js";
+import { aggregateByCountry, displayCountryBreakdown } from "./utils/countryBreakdown.js";
+import { displayRefundsReport } from "./utils/refundsReport.js";
+import { displayCommissionReport, getCustomerCurrencies } from "./utils/commissionReport.js";
+import { aggregateByPortfolio, displayPortfolioReport } from "./utils/portfolioReport.js";
+import { displayPivotTable } from "./utils/pivotTable.js";
+import { buildPaymentDeposits, displayPaymentReconciliation } from "./utils/paymentReconciliation.js";
+import {
+  applySettlementRates,
+  applySettlementsToPaymentInfo,
+  getRegionCodes,
+  parseRegionSettlement,
+} from "./utils/regionSettlement.js";
+import { buildComparison, formatChange, getProductKey } from "./utils/comparison.js";
+import { checkReportTotals, ReportTotalsMismatchError } from "./utils/reportCheck.js";
+import {
+  describeExchangeRateSource,
+  fetchExchangeRatesForSource,
+  getFxRateStrategy,
+  parseFxRateStrategy,
+  resolveExchangeRateSource,
+} from "./utils/exchangeRateSource.js";
 import {
-  isMappingCacheValid,
   readMappingCache,
+  toProductMapping,
   writeMappingCache,
 } from "./utils/productMappingCache.js";
+import {
+  findUnmappedProducts,
+  needsMappingRefresh,
+  selectAppsOwning,
+  selectAppsToRefresh,
+} from "./utils/mappingRefresh.js";
+import { readKey } from "./utils/keypress.js";
 import { hasConfiguration, getConfigFilePath } from "./config/loader.js";
+import { NO_GROUPING_OVERRIDES, loadGroupingOverrides } from "./config/overrides.js";
+import { CliError, EXIT_CODES, UsageError, getExitCode } from "./utils/errors.js";
 import { runSetupWizard, showConfigStatus } from "./config/setup.js";
-import type { CalendarMonth, ProductEarnings, AppWithIAPs, PaymentInfo } from "./types.js";
+import type {
+  AppStoreConnectConfig,
+  AppManagerConfig,
+  CalendarMonth,
+  ProductEarnings,
+  AppWithIAPs,
+  PaymentInfo,
+  MonthEarnings,
+  OutputFormat,
+  ComparisonMode,
+  EarningsComparison,
+  BreakdownView,
+  ExchangeRateSource,
+  ExchangeRateResult,
+  FxRateStrategy,
+  GroupingOverrides,
+  RegionSettlement,
+} from "./types.js";
 
 // Check for flags
 const showHelpFlag = process.argv.includes("--help") || process.argv.includes("-h");
@@ -29,6 +97,178 @@ const refreshMapping = process.argv.includes("--refresh-mapping");
 const runSetup = process.argv.includes("--setup");
 const showStatus = process.argv.includes("--status");
 const runDemo = process.argv.includes("--demo");
+const showRefunds = process.argv.includes("--show-refunds");
+const offline = process.argv.includes("--offline");
+const lenientFx = process.argv.includes("--lenient-fx");
+// Output read by scripts or saved to files must not report 1:1 conversions as real totals,
+// so strict is the default whenever stdout isn't a terminal
+const strictFx = process.argv.includes("--strict-fx") || (!lenientFx && !process.stdout.isTTY);
+const strictReport = process.argv.includes("--strict");
+const monthArg = getFlagValue("--month");
+const rangeArg = getFlagValue("--range");
+const flagMonths = parseMonthFlags(monthArg, rangeArg);
+const outputFormat = parseOutputFormat(getFlagValue("--format"));
+const outputPath = getFlagValue("--output");
+const compareMode = parseComparisonMode(getFlagValue("--compare"));
+const breakdownView = parseBreakdownView(getFlagValue("--by"));
+const fxRateArg = parseFxRateFlag(getFlagValue("--fx-rate"));
+
+if (lenientFx && process.argv.includes("--strict-fx")) {
+  exitWithUsageError("--strict-fx and --lenient-fx cannot be combined");
+}
+
+if (offline && (!useCache || refreshMapping)) {
+  exitWithUsageError("--offline only uses cached data and cannot be combined with --no-cache or --refresh-mapping");
+}
+
+if (outputPath && outputFormat === "table") {
+  exitWithUsageError("--output requires --format json, csv or tsv");
+}
+
+if (compareMode && (rangeArg || outputFormat !== "table")) {
+  exitWithUsageError("--compare works with a single month in table format");
+}
+
+if (breakdownView && (compareMode || outputFormat === "csv" || outputFormat === "tsv")) {
+  exitWithUsageError("--by works with table or json format and cannot be combined with --compare");
+}
+
+// Only the country and portfolio views add a section to JSON output
+if ((breakdownView === "refunds" || breakdownView === "commission") && outputFormat === "json") {
+  exitWithUsageError(`--by ${breakdownView} only works in table format`);
+}
+
+/**
+ * Prints an invalid-usage error and exits.
+ * Used while flags are read at startup, before main() runs.
+ */
+function exitWithUsageError(message: string): never {
+  console.error(`\nError: ${message}\n`);
+  console.error("Run with --help to see available options.\n");
+  process.exit(EXIT_CODES.usage);
+}
+
+/**
+ * Gets the value of a flag passed as "--flag value" or "--flag=value".
+ * Returns null if the flag is not present.
+ */
+function getFlagValue(flag: string): string | null {
+  const args = process.argv.slice(2);
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === flag) {
+      const value = args[i + 1];
+      if (value === undefined || value.startsWith("--")) {
+        exitWithUsageError(`Missing value for ${flag}`);
+      }
+      return value;
+    }
+
+    if (args[i].startsWith(`${flag}=`)) {
+      return args[i].substring(flag.length + 1);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the --month and --range flag values.
+ * Returns the months they select, or null when neither is given (the month is prompted for).
+ */
+function parseMonthFlags(month: string | null, range: string | null): CalendarMonth[] | null {
+  if (month && range) {
+    exitWithUsageError("Use either --month or --range, not both.");
+  }
+
+  try {
+    if (month) {
+      return [parseCalendarMonth(month)];
+    }
+
+    if (range) {
+      return parseCalendarMonthRange(range);
+    }
+  } catch (error) {
+    exitWithUsageError((error as Error).message);
+  }
+
+  return null;
+}
+
+/**
+ * Validates the --format flag value.
+ */
+function parseOutputFormat(value: string | null): OutputFormat {
+  if (value === null || value === "table") {
+    return "table";
+  }
+
+  if (value === "json" || value === "csv" || value === "tsv") {
+    return value;
+  }
+
+  exitWithUsageError(`Unknown format "${value}". Expected one of: table, json, csv, tsv`);
+}
+
+/**
+ * Validates the --compare flag value.
+ */
+function parseComparisonMode(value: string | null): ComparisonMode | null {
+  if (value === null) {
+    return null;
+  }
+
+  if (value === "prev" || value === "yoy") {
+    return value;
+  }
+
+  exitWithUsageError(`Unknown comparison "${value}". Expected one of: prev, yoy`);
+}
+
+/**
+ * Validates the --by flag value.
+ */
+function parseBreakdownView(value: string | null): BreakdownView | null {
+  if (value === null) {
+    return null;
+  }
+
+  if (value === "country" || value === "refunds" || value === "commission" || value === "portfolio") {
+    return value;
+  }
+
+  exitWithUsageError(`Unknown breakdown "${value}". Expected one of: country, refunds, commission, portfolio`);
+}
+
+/**
+ * Validates the --fx-rate flag value.
+ */
+function parseFxRateFlag(value: string | null): FxRateStrategy | null {
+  if (value === null) {
+    return null;
+  }
+
+  try {
+    return parseFxRateStrategy(value);
+  } catch (error) {
+    exitWithUsageError((error as Error).message);
+  }
+}
+
+/**
+ * Gets the exchange rate strategy from --fx-rate, falling back to config.
+ */
+function getExchangeRateStrategy(): FxRateStrategy {
+  return fxRateArg ?? getFxRateStrategy();
+}
+
+/**
+ * Gets the month to compare against for the selected comparison mode.
+ */
+function getComparisonMonth(month: CalendarMonth, mode: ComparisonMode): CalendarMonth {
+  return shiftCalendarMonth(month, mode === "prev" ? -1 : -12);
+}
 
 /**
  * Displays help information for the CLI.
@@ -44,12 +284,38 @@ Options:
   --setup            Run interactive setup wizard
   --status           Show configuration status
   --no-cache         Bypass cache and fetch fresh data
-  --refresh-mapping  Refresh the app/IAP product mapping
+  --refresh-mapping  Refetch the whole app/IAP product mapping
   --demo             Run with fake data (for demos/screenshots)
+  --month YYYY-MM    Show a specific month without prompting
+  --range A..B       Show months A to B (YYYY-MM..YYYY-MM) as a pivot table
+  --format FORMAT    Output format: table (default), json, csv or tsv
+  --output FILE      Write json/csv/tsv output to FILE instead of stdout
+  --compare MODE     Compare with the previous month (prev) or a year earlier (yoy)
+  --by country       Break down proceeds, units and share by country of sale
+  --by refunds       Show gross sales, refunds and refund rate per app and product
+  --by commission    Show customer gross vs net proceeds and Apple's take rate
+  --by portfolio     Roll up proceeds by the portfolios defined in overrides.json
+  --show-refunds     Show refunded amounts next to net proceeds in the tree
+  --offline          Use only cached reports, product mapping and exchange rates
+  --strict-fx        Abort if any exchange rate is missing (default when output isn't a terminal)
+  --lenient-fx       Convert currencies without a rate 1:1 and mark totals as incomplete
+  --strict           Abort if a report doesn't add up to its own footer totals
+  --fx-rate STRATEGY Exchange rates to convert with: period-end (default),
+                     period-average, payment-date or latest
 
 Environment variables:
   DEBUG=1            Enable debug output
   ASC_CACHE_DIR      Override cache directory
+  FX_RATE_STRATEGY   Default exchange rate strategy (see --fx-rate)
+
+Exit codes:
+  0   Success                       7   Vendor number not accepted
+  1   Unexpected error              8   Report not published yet
+  2   Invalid flags or arguments    9   Network, rate limit or Apple server error
+  3   Missing configuration        10   Report couldn't be parsed or doesn't add up
+  4   Private key problem          11   Exchange rate missing (--strict-fx)
+  5   API key rejected (401)       12   Data not cached (--offline)
+  6   API key lacks required role
 
 Documentation: https://github.com/tzechuen/appstore-earnings-cli
 `);
@@ -57,94 +323,88 @@ Documentation: https://github.com/tzechuen/appstore-earnings-cli
 
 /**
  * Runs a demo mode with fake data for screenshots and demos.
+ * The fake reports go through the same parsing and grouping as real ones.
  */
 async function runDemoMode(): Promise<void> {
-  console.log("\n  App Store Earnings CLI\n");
+  console.error("\n  App Store Earnings CLI\n");
 
-  // Get list of calendar months
-  const months = getRecentCalendarMonths(24);
+  const selectedMonths = await selectMonths();
+  const demoMapping = buildDemoProductMapping();
+  const earnings: MonthEarnings[] = [];
 
-  // Prompt user to select a month
-  const selectedMonth = await select<CalendarMonth>({
-    message: "Select month:",
-    choices: months.map((month) => ({
-      name: month.displayName,
-      value: month,
-    })),
-  });
+  for (const selectedMonth of selectedMonths) {
+    earnings.push(await loadDemoMonth(selectedMonth, demoMapping));
+  }
+
+  let comparison: EarningsComparison | null = null;
+
+  if (compareMode && earnings.length === 1) {
+    const comparisonMonth = getComparisonMonth(earnings[0].month, compareMode);
+    const previous = await loadDemoMonth(comparisonMonth, demoMapping);
+    comparison = buildComparison(earnings[0], previous);
+  }
 
-  console.log(`\nFetching financial report for ${selectedMonth.displayName}...`);
+  renderEarnings(earnings, getTargetCurrency(), demoMapping, comparison);
+}
+
+/**
+ * Builds fake earnings for a single month in demo mode.
+ */
+async function loadDemoMonth(
+  selectedMonth: CalendarMonth,
+  demoMapping: Map<string, ProductInfo>
+): Promise<MonthEarnings> {
+  console.error(`\nFetching financial report for ${selectedMonth.displayName}...`);
 
   // Simulate a small delay for realism
   await new Promise(resolve => setTimeout(resolve, 300));
 
-  console.log("Converting currencies to USD...");
-
-  await new Promise(resolve => setTimeout(resolve, 200));
-
-  // Fake demo data
-  const demoApps: AppWithIAPs[] = [
-    {
-      appleIdentifier: "1234567890",
-      title: "Photo Editor Pro",
-      sku: "com.demo.photoeditor",
-      totalProceeds: 847.22,
-      appProceeds: 0,
-      iaps: [
-        { appleIdentifier: "1234567891", title: "Pro Subscription (Yearly)", sku: "yearly_sub", productType: "IAY", isIAP: true, proceedsByCurrency: {}, totalProceeds: 599.99 },
-        { appleIdentifier: "1234567892", title: "Pro Subscription (Monthly)", sku: "monthly_sub", productType: "IAY", isIAP: true, proceedsByCurrency: {}, totalProceeds: 189.94 },
-        { appleIdentifier: "1234567893", title: "Remove Watermarks", sku: "remove_watermarks", productType: "IA1", isIAP: true, proceedsByCurrency: {}, totalProceeds: 57.29 },
-      ]
-    },
-    {
-      appleIdentifier: "2345678901",
-      title: "Task Manager",
-      sku: "com.demo.taskmanager",
-      totalProceeds: 234.50,
-      appProceeds: 34.50,
-      iaps: [
-        { appleIdentifier: "2345678902", title: "Premium Upgrade", sku: "premium", productType: "IA1", isIAP: true, proceedsByCurrency: {}, totalProceeds: 200.00 },
-      ]
-    },
-    {
-      appleIdentifier: "3456789012",
-      title: "Weather Plus",
-      sku: "com.demo.weatherplus",
-      totalProceeds: 89.97,
-      appProceeds: 89.97,
-      iaps: []
-    }
-  ];
-
-  // Create fake payment info (pending payment)
-  const demoPaymentInfo: PaymentInfo = {
-    paymentDate: null,
-    paymentAmount: null,
-    paymentCurrency: "USD",
-    exchangeRate: null,
-    isPending: true,
-    estimatedPaymentDate: getEstimatedPaymentDate(selectedMonth),
-    fiscalPeriodStart: "",
-    fiscalPeriodEnd: "",
-    totalOwed: 1171.69,
-  };
+  // Demo reports are in USD only, so no exchange rates need to be fetched
+  const demoRates = async (currencies: string[]) => ({
+    rates: new Map(currencies.map((currency): [string, number] => [currency, 1])),
+    failedCurrencies: [],
+  });
 
-  displayEarningsTree(demoApps, selectedMonth, demoPaymentInfo);
+  return buildMonthEarnings(
+    selectedMonth,
+    buildDemoReport(selectedMonth),
+    demoMapping,
+    demoRates,
+    buildDemoRegionReports(selectedMonth)
+  );
 }
 
 /**
- * Calculates an estimated payment date (~33 days after month end).
+ * Resolves which month(s) to show.
+ * Uses --month or --range when given, otherwise prompts interactively.
+ * Fails instead of prompting when no TTY is attached (cron, CI, scripts).
  */
-function getEstimatedPaymentDate(month: CalendarMonth): string {
-  const monthEnd = new Date(month.year, month.month, 0); // Last day of month
-  const paymentDate = new Date(monthEnd);
-  paymentDate.setDate(paymentDate.getDate() + 33);
+async function selectMonths(): Promise<CalendarMonth[]> {
+  if (flagMonths) {
+    return flagMonths;
+  }
 
-  return paymentDate.toLocaleDateString("en-US", {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
+  if (!process.stdin.isTTY) {
+    throw new UsageError(
+      "No month selected and no interactive terminal available.\n" +
+      "Pass --month YYYY-MM or --range YYYY-MM..YYYY-MM when running non-interactively."
+    );
+  }
+
+  // Get list of calendar months
+  const months = getRecentCalendarMonths(24);
+
+  // Prompt user to select a month
+  // Prompt is drawn on stderr so stdout only ever carries the report
+  const selectedMonth = await select<CalendarMonth>({
+    message: "Select month:",
+    choices: months.map((month) => ({
+      name: month.displayName,
+      value: month,
+    })),
+  }, { output: process.stderr });
+
+  return [selectedMonth];
 }
 
 async function main(): Promise<void> {
@@ -172,8 +432,8 @@ async function main(): Promise<void> {
     return;
   }
 
-  // Check if configuration exists
-  if (!hasConfiguration()) {
+  // Check if configuration exists (only offer setup when someone can answer the prompt)
+  if (!hasConfiguration() && process.stdin.isTTY) {
     console.log("\n  App Store Earnings CLI\n");
     console.log("  No configuration found.\n");
     console.log("  Would you like to set up now?\n");
@@ -204,75 +464,216 @@ async function main(): Promise<void> {
     }
   }
 
-  console.log("\n  App Store Earnings CLI\n");
+  console.error("\n  App Store Earnings CLI\n");
 
   // Load Finance API configuration (required)
-  let config;
-  try {
-    config = loadConfig();
-  } catch (error) {
-    console.error(`\nError: ${(error as Error).message}\n`);
-    process.exit(1);
-  }
+  const config = loadConfig();
 
   // Load App Manager API configuration (optional - for app grouping)
   const appManagerConfig = loadAppManagerConfig();
 
-  // Get or build product mapping (apps + IAPs)
+  // Read the grouping overrides up front so a broken file fails before any download
+  getGroupingOverrides();
+
+  const selectedMonths = await selectMonths();
+
+  // Workaround: Bun has an issue where async crypto operations (jose JWT signing)
+  // can hang after interactive TTY input. This setImmediate lets the event loop settle.
+  await new Promise(resolve => setImmediate(resolve));
+
+  const reports: Array<string | null> = [];
+
+  for (const selectedMonth of selectedMonths) {
+    reports.push(await loadMonthReport(config, selectedMonth, rangeArg !== null));
+  }
+
+  // Load the comparison period through the same cache/API path
+  const comparisonMonth = compareMode && selectedMonths.length === 1
+    ? getComparisonMonth(selectedMonths[0], compareMode)
+    : null;
+  const comparisonReport = comparisonMonth ? await loadMonthReport(config, comparisonMonth, true) : null;
+
+  // Get or update product mapping (apps + IAPs); the reports show which products it's missing
+  const productMapping = appManagerConfig
+    ? await loadProductMapping(appManagerConfig, [...reports, comparisonReport])
+    : null;
+
+  const earnings: MonthEarnings[] = [];
+
+  for (const [index, selectedMonth] of selectedMonths.entries()) {
+    earnings.push(await loadMonthEarnings(config, selectedMonth, reports[index], productMapping, showsPaymentDetails()));
+  }
+
+  // The comparison month only needs settlement rates, not its payment breakdown
+  const previous = comparisonMonth
+    ? await loadMonthEarnings(config, comparisonMonth, comparisonReport, productMapping, false)
+    : null;
+  let comparison = previous ? buildComparison(earnings[0], previous) : null;
+
+  renderEarnings(earnings, getTargetCurrency(), productMapping, comparison);
+
+  // Unmapped products are listed under the tree; offer to fetch the apps they may belong to
+  const unmappedProducts = earnings.flatMap((monthEarnings) => monthEarnings.unmappedProducts ?? []);
+
+  if (appManagerConfig && unmappedProducts.length > 0 && canOfferMappingRefresh()) {
+    const key = await readKey("\n  Press r to update the product mapping for these products, any other key to exit: ");
+    const updatedMapping = key === "r" ? await refreshMappingForProducts(appManagerConfig, unmappedProducts) : null;
+
+    if (updatedMapping) {
+      for (const monthEarnings of [...earnings, ...(previous ? [previous] : [])]) {
+        Object.assign(monthEarnings, groupProducts(monthEarnings.products, updatedMapping));
+      }
+      comparison = previous ? buildComparison(earnings[0], previous) : null;
+
+      renderEarnings(earnings, getTargetCurrency(), updatedMapping, comparison);
+    }
+  }
+}
+
+/**
+ * Gets the product mapping, updating the cache only where needed.
+ *
+ * --refresh-mapping (or a missing cache) fetches every app's products. Otherwise only
+ * new apps, apps whose cached products expired and apps that may own a product missing
+ * from the mapping are fetched, and merged into the cache.
+ */
+async function loadProductMapping(
+  config: AppManagerConfig,
+  reports: Array<string | null>
+): Promise<Map<string, ProductInfo> | null> {
+  const cache = readMappingCache();
   let productMapping: Map<string, ProductInfo> | null = null;
 
-  if (appManagerConfig) {
-    if (!refreshMapping && isMappingCacheValid()) {
-      console.log("Using cached product mapping...");
-      productMapping = readMappingCache();
+  if (offline) {
+    // An expired mapping is still better than none when there's no network
+    if (!cache) {
+      throw new OfflineDataMissingError("No cached product mapping.");
+    }
+    console.error("Using cached product mapping (offline)...");
+    productMapping = toProductMapping(cache);
+  } else {
+    const rows = reports.flatMap((report) => (report ? parseFinanceReport(report) : []));
+    const unmappedProducts = cache ? findUnmappedProducts(rows, toProductMapping(cache)) : [];
+
+    if (cache && !refreshMapping && !needsMappingRefresh(cache, unmappedProducts)) {
+      console.error("Using cached product mapping...");
+      productMapping = toProductMapping(cache);
     } else {
-      console.log("Building product mapping...");
+      const isFullBuild = !cache || refreshMapping;
+      console.error(isFullBuild ? "Building product mapping..." : "Updating product mapping...");
+
       try {
-        productMapping = await buildProductMapping(appManagerConfig);
-        writeMappingCache(productMapping);
-        console.log("Product mapping cached.\n");
+        productMapping = saveProductMapping(
+          isFullBuild
+            ? await buildProductMapping(config)
+            : await updateProductMapping(config, cache, (apps) => selectAppsToRefresh(cache, apps, unmappedProducts))
+        );
       } catch (error) {
         console.warn(`Warning: Could not fetch app data: ${(error as Error).message}`);
-        console.log("Continuing without app grouping...\n");
+
+        if (cache) {
+          console.error("Continuing with the cached product mapping...\n");
+          productMapping = toProductMapping(cache);
+        } else {
+          console.error("Continuing without app grouping...\n");
+        }
       }
     }
+  }
 
-    // Debug: show mapping summary
-    if (process.env.DEBUG && productMapping) {
-      const apps = new Set<string>();
-      let iapCount = 0;
-      for (const info of productMapping.values()) {
-        apps.add(info.parentAppName);
-        if (info.isIAP) iapCount++;
-      }
-      console.log(`\n[DEBUG] Mapping: ${apps.size} apps, ${iapCount} IAPs/subscriptions\n`);
+  // Debug: show mapping summary
+  if (process.env.DEBUG && productMapping) {
+    const apps = new Set<string>();
+    let iapCount = 0;
+    for (const info of productMapping.values()) {
+      apps.add(info.parentAppName);
+      if (info.isIAP) iapCount++;
     }
+    console.error(`\n[DEBUG] Mapping: ${apps.size} apps, ${iapCount} IAPs/subscriptions\n`);
   }
 
-  // Get list of calendar months
-  const months = getRecentCalendarMonths(24);
+  return productMapping;
+}
 
-  // Prompt user to select a month
-  const selectedMonth = await select<CalendarMonth>({
-    message: "Select month:",
-    choices: months.map((month) => ({
-      name: month.displayName,
-      value: month,
-    })),
-  });
+/**
+ * Caches an updated product mapping and reports the apps that couldn't be fetched.
+ * Apps that failed keep their previous entry (if any) and are fetched again next time.
+ */
+function saveProductMapping({ cache, fetchedApps, failures }: ProductMappingResult): Map<string, ProductInfo> {
+  writeMappingCache(cache);
 
-  // Workaround: Bun has an issue where async crypto operations (jose JWT signing)
-  // can hang after interactive TTY input. This setImmediate lets the event loop settle.
-  await new Promise(resolve => setImmediate(resolve));
+  if (failures.length > 0) {
+    console.warn(`Warning: Could not fetch in-app purchases and subscriptions for ${failures.length} of the apps:`);
+    for (const failure of failures) {
+      console.warn(`  - ${failure.appName} (${failure.appId}): ${failure.message}`);
+    }
+    console.error("They'll be fetched again on the next run; until then their new products are shown ungrouped.\n");
+  } else {
+    console.error(`Product mapping cached (${fetchedApps} ${fetchedApps === 1 ? "app" : "apps"} updated).\n`);
+  }
+
+  return toProductMapping(cache);
+}
+
+/**
+ * Whether the output shows payment details (deposits and per-region settlements).
+ * JSON always includes them; tables only under a single month's tree.
+ */
+function showsPaymentDetails(): boolean {
+  return outputFormat === "json" || (outputFormat === "table" && !breakdownView && !rangeArg);
+}
+
+/**
+ * Whether to offer updating the product mapping for unmapped products after showing them.
+ * Only in the interactive tree view, where they're listed.
+ */
+function canOfferMappingRefresh(): boolean {
+  return outputFormat === "table" && !breakdownView && !rangeArg && !offline && !runDemo &&
+    Boolean(process.stdin.isTTY) && Boolean(process.stdout.isTTY);
+}
+
+/**
+ * Fetches the apps that may own the given products again, whenever they were last fetched.
+ * Returns the updated mapping, or null if the apps couldn't be listed.
+ */
+async function refreshMappingForProducts(
+  config: AppManagerConfig,
+  products: ProductEarnings[]
+): Promise<Map<string, ProductInfo> | null> {
+  console.error("\nUpdating product mapping...");
+
+  try {
+    return saveProductMapping(
+      await updateProductMapping(config, readMappingCache(), (apps) => selectAppsOwning(apps, products))
+    );
+  } catch (error) {
+    console.warn(`Warning: Could not fetch app data: ${(error as Error).message}`);
+    return null;
+  }
+}
 
-  console.log(`\nFetching financial report for ${selectedMonth.displayName}...`);
+/**
+ * Loads the financial report for a single month, from the cache or the API.
+ * Progress is written to stderr so stdout stays clean for machine-readable output.
+ *
+ * When allowMissing is set, a month without a published report returns null
+ * instead of failing.
+ */
+async function loadMonthReport(
+  config: AppStoreConnectConfig,
+  selectedMonth: CalendarMonth,
+  allowMissing: boolean
+): Promise<string | null> {
+  console.error(`\nFetching financial report for ${selectedMonth.displayName}...`);
 
   // Check cache first
   let reportContent: string;
 
   if (useCache && isCached(selectedMonth)) {
-    console.log("Using cached report...");
+    console.error("Using cached report...");
     reportContent = readCache(selectedMonth)!;
+  } else if (offline) {
+    throw new OfflineDataMissingError(`No cached report for ${selectedMonth.displayName}.`);
   } else {
     // Download from API
     try {
@@ -281,12 +682,13 @@ async function main(): Promise<void> {
       // Cache the report
       if (useCache) {
         writeCache(selectedMonth, reportContent);
-        console.log("Report cached for future use.");
+        console.error("Report cached for future use.");
       }
     } catch (error) {
-      if (error instanceof NoReportAvailableError) {
-        console.error(`\n${error.message}\n`);
-        process.exit(1);
+      // In a range or comparison, a missing month shows as empty instead of aborting
+      if (error instanceof NoReportAvailableError && allowMissing) {
+        console.warn(`Warning: ${error.message}`);
+        return null;
       }
       throw error;
     }
@@ -294,131 +696,499 @@ async function main(): Promise<void> {
 
   // Debug: Show first few lines of report to understand format
   if (process.env.DEBUG) {
-    console.log("\n--- Report Preview (first 500 chars) ---");
-    console.log(reportContent.substring(0, 500));
-    console.log("---\n");
+    console.error("\n--- Report Preview (first 500 chars) ---");
+    console.error(reportContent.substring(0, 500));
+    console.error("---\n");
+  }
+
+  return reportContent;
+}
+
+/**
+ * Parses and converts earnings for a single month.
+ * A null report (not published yet) gives empty earnings.
+ */
+async function loadMonthEarnings(
+  config: AppStoreConnectConfig,
+  selectedMonth: CalendarMonth,
+  reportContent: string | null,
+  productMapping: Map<string, ProductInfo> | null,
+  includePaymentRegions: boolean
+): Promise<MonthEarnings> {
+  if (reportContent === null) {
+    return createEmptyEarnings(selectedMonth, productMapping);
+  }
+
+  const regionReports = await loadRegionReports(config, selectedMonth, reportContent, includePaymentRegions);
+
+  return buildMonthEarnings(
+    selectedMonth,
+    reportContent,
+    productMapping,
+    (currencies, source) => fetchExchangeRatesForSource(currencies, source, { offline, strict: strictFx }),
+    regionReports
+  );
+}
+
+// Region reports loaded during this run, by report month (YYYY-MM)
+const loadedRegionReports = new Map<string, Promise<Map<string, string>>>();
+
+/**
+ * Loads the region-specific reports for the currencies in a consolidated report, once per month per run.
+ * Their payment summaries carry Apple's settlement rates.
+ *
+ * Regions of the target currency only add the payment breakdown, so they're skipped when
+ * payment details aren't shown. The summary appears once Apple has paid the month, so
+ * months that aren't paid yet are read from the cache only, and only reports with a
+ * summary are cached.
+ */
+function loadRegionReports(
+  config: AppStoreConnectConfig,
+  selectedMonth: CalendarMonth,
+  reportContent: string,
+  includePaymentRegions: boolean
+): Promise<Map<string, string>> {
+  let regionReports = loadedRegionReports.get(selectedMonth.reportDate);
+
+  if (!regionReports) {
+    regionReports = fetchRegionReports(config, selectedMonth, reportContent, includePaymentRegions);
+    loadedRegionReports.set(selectedMonth.reportDate, regionReports);
+  }
+
+  return regionReports;
+}
+
+/**
+ * Reads region reports from the cache, downloading the missing ones once the month has been paid.
+ * Regions that can't be fetched are skipped.
+ */
+async function fetchRegionReports(
+  config: AppStoreConnectConfig,
+  selectedMonth: CalendarMonth,
+  reportContent: string,
+  includePaymentRegions: boolean
+): Promise<Map<string, string>> {
+  const targetCurrency = getTargetCurrency();
+  const currencies = [...new Set(parseFinanceReport(reportContent).map((row) => row.partnerShareCurrency))]
+    .filter((currency) => includePaymentRegions || currency !== targetCurrency);
+  const isPaid = parsePaymentInfo(reportContent)?.isPending === false;
+  const regionReports = new Map<string, string>();
+
+  const results = await Promise.all(
+    getRegionCodes(currencies).map(async (regionCode) => {
+      const cached = useCache && isCached(selectedMonth, regionCode) ? readCache(selectedMonth, regionCode) : null;
+
+      // Caches written by older versions may lack a summary; they're still better than nothing offline
+      if (cached && (offline || parseRegionSettlement(regionCode, cached) !== null)) {
+        return { regionCode, content: cached };
+      }
+      if (offline || !isPaid) {
+        return { regionCode, content: null };
+      }
+
+      const content = await fetchRegionFinanceReport(config, selectedMonth, regionCode);
+
+      if (content && useCache && parseRegionSettlement(regionCode, content) !== null) {
+        writeCache(selectedMonth, content, regionCode);
+      }
+      return { regionCode, content };
+    })
+  );
+
+  const missingRegions: string[] = [];
+
+  for (const { regionCode, content } of results) {
+    if (content) {
+      regionReports.set(regionCode, content);
+    } else {
+      missingRegions.push(regionCode);
+    }
+  }
+
+  if (offline && missingRegions.length > 0) {
+    console.error(
+      `Note: No cached region reports for ${missingRegions.join(", ")} (${selectedMonth.displayName}). ` +
+      "Their currencies are converted at provider rates instead of Apple's settlement rates, " +
+      "so totals may differ from an online run."
+    );
   }
 
-  // Parse the report
-  const rows = parseFinanceReport(reportContent);
+  return regionReports;
+}
+
+/**
+ * Creates earnings for a month without any sales.
+ */
+function createEmptyEarnings(
+  month: CalendarMonth,
+  productMapping: Map<string, ProductInfo> | null
+): MonthEarnings {
+  const targetCurrency = getTargetCurrency();
+
+  return {
+    month,
+    targetCurrency,
+    exchangeRates: new Map([[targetCurrency, 1]]),
+    exchangeRateSource: {
+      strategy: getExchangeRateStrategy(),
+      date: null,
+      endDate: null,
+      settlementCurrencies: [],
+    },
+    unconvertedCurrencies: [],
+    settlements: [],
+    rows: [],
+    products: [],
+    apps: productMapping && productMapping.size > 0 ? [] : null,
+    unmappedProducts: productMapping && productMapping.size > 0 ? [] : null,
+    paymentInfo: null,
+    totalProceeds: 0,
+  };
+}
+
+/**
+ * Parses a financial report and converts it into earnings for display.
+ * Exchange rates are fetched through getRates so demo mode can skip the network.
+ */
+async function buildMonthEarnings(
+  month: CalendarMonth,
+  reportContent: string,
+  productMapping: Map<string, ProductInfo> | null,
+  getRates: (currencies: string[], source: ExchangeRateSource) => Promise<ExchangeRateResult>,
+  regionReports: Map<string, string> = new Map()
+): Promise<MonthEarnings> {
+  // Parse the report and check it against Apple's footer totals before trusting any numbers
+  const sections = parseFinanceReportSections(reportContent);
+  const rows = sections.flatMap((section) => section.rows);
+
+  const problems = checkReportTotals(sections);
+  if (problems.length > 0) {
+    if (strictReport) {
+      throw new ReportTotalsMismatchError(month.displayName, problems);
+    }
+    console.warn(`Warning: The ${month.displayName} report doesn't match its own totals:`);
+    problems.forEach((problem) => console.warn(`  - ${problem}`));
+    console.warn("Re-download it with --no-cache, or use --strict to abort on mismatches.");
+  }
 
   if (rows.length === 0) {
-    console.log("\nNo financial data found for this period.\n");
-    console.log("Hint: Run with DEBUG=1 to see raw report content.");
-    process.exit(0);
+    console.error("\nNo financial data found for this period.");
+    console.error("Hint: Run with DEBUG=1 to see raw report content.");
+    return createEmptyEarnings(month, productMapping);
   }
 
   // Aggregate by product
   let products = aggregateByProduct(rows);
 
   if (products.length === 0) {
-    console.log("\nNo earnings for this period.\n");
-    process.exit(0);
+    return createEmptyEarnings(month, productMapping);
   }
 
   // Get unique currencies and fetch exchange rates
+  // The commission view also converts customer prices, which may use other currencies
   const currencies = getUniqueCurrencies(products);
+  if (breakdownView === "commission") {
+    for (const currency of getCustomerCurrencies(rows)) {
+      if (!currencies.includes(currency)) currencies.push(currency);
+    }
+  }
   const targetCurrency = getTargetCurrency();
 
-  console.log(`Converting currencies to ${targetCurrency}...`);
-  const exchangeRates = await fetchExchangeRates(currencies);
-
-  // Convert to target currency
-  products = convertProducts(products, exchangeRates);
-
   // Parse payment information from the consolidated report
   // Extracts fiscal period dates and estimates payment status based on timing
-  const paymentInfo = parsePaymentInfo(reportContent);
+  // Region reports add Apple's actual payment (amount, rate, bank currency) when available
+  const settlements = Array.from(regionReports)
+    .map(([regionCode, content]) => parseRegionSettlement(regionCode, content))
+    .filter((settlement): settlement is RegionSettlement => settlement !== null);
+  const paymentInfo = applySettlementsToPaymentInfo(parsePaymentInfo(reportContent), settlements);
+
+  // Rates are pinned to the report's fiscal period rather than today
+  const strategySource = resolveExchangeRateSource(getExchangeRateStrategy(), paymentInfo);
+
+  // Apple's settlement rates take precedence; the rate provider covers the rest and any
+  // bank currency that differs from the target currency
+  const settledCurrencies = settlements
+    .filter((settlement) => settlement.exchangeRate !== null && settlement.bankCurrency !== null)
+    .map((settlement) => settlement.currency);
+  const bankCurrencies = settlements
+    .map((settlement) => settlement.bankCurrency)
+    .filter((currency): currency is string => currency !== null && currency !== targetCurrency);
+  const providerCurrencies = [
+    ...new Set([...currencies.filter((currency) => !settledCurrencies.includes(currency)), ...bankCurrencies]),
+  ];
 
-  // Group products by parent app if we have a mapping
-  if (productMapping && productMapping.size > 0) {
-    const apps = groupByParentApp(products, productMapping);
-    apps.sort((a, b) => b.totalProceeds - a.totalProceeds);
-    displayEarningsTree(apps, selectedMonth, paymentInfo);
-  } else {
-    // Flat display without grouping
-    products.sort((a, b) => b.totalProceeds - a.totalProceeds);
-    displayFlatList(products, selectedMonth, paymentInfo);
-  }
+  console.error(
+    `Converting currencies to ${targetCurrency} using ${describeExchangeRateSource(strategySource)} rates...`
+  );
+  const { rates: exchangeRates, failedCurrencies, settlementCurrencies } = applySettlementRates(
+    settlements,
+    await getRates(providerCurrencies, strategySource),
+    targetCurrency
+  );
+  const exchangeRateSource: ExchangeRateSource = { ...strategySource, settlementCurrencies };
+
+  // Convert to target currency (currencies without a rate were converted 1:1 and are flagged)
+  products = convertProducts(products, exchangeRates, failedCurrencies);
+  products.sort((a, b) => b.totalProceeds - a.totalProceeds);
+
+  const { apps, unmappedProducts } = groupProducts(products, productMapping);
+
+  return {
+    month,
+    targetCurrency,
+    exchangeRates,
+    exchangeRateSource,
+    unconvertedCurrencies: failedCurrencies,
+    settlements,
+    rows,
+    products,
+    apps,
+    unmappedProducts,
+    paymentInfo,
+    totalProceeds: products.reduce((sum, product) => sum + product.totalProceeds, 0),
+  };
+}
+
+// Read on first use by getGroupingOverrides()
+let groupingOverrides: GroupingOverrides | null = null;
+
+/**
+ * Gets the grouping overrides from overrides.json, read once per run (the demo ignores them).
+ */
+function getGroupingOverrides(): GroupingOverrides {
+  groupingOverrides ??= runDemo ? NO_GROUPING_OVERRIDES : loadGroupingOverrides();
+  return groupingOverrides;
 }
 
 /**
- * Groups products by their parent app using the product mapping.
+ * Groups products by parent app if we have a mapping or product overrides,
+ * noting the products the mapping doesn't know.
  */
-function groupByParentApp(
+function groupProducts(
   products: ProductEarnings[],
-  mapping: Map<string, ProductInfo>
-): AppWithIAPs[] {
-  const appMap = new Map<string, AppWithIAPs>();
+  productMapping: Map<string, ProductInfo> | null
+): Pick<MonthEarnings, "apps" | "unmappedProducts"> {
+  const overrides = getGroupingOverrides();
+  const hasMapping = productMapping !== null && productMapping.size > 0;
 
-  for (const product of products) {
-    // Look up product in mapping:
-    // 1. Try SKU (vendor identifier) - works for IAPs/subscriptions
-    // 2. Try Apple Identifier (numeric ID) - works for apps and as fallback
-    const info = mapping.get(product.sku) || mapping.get(product.appleIdentifier);
-
-    // Determine parent app
-    let parentAppName: string;
-    let parentAppId: string;
-    let isIAP: boolean;
-
-    if (info) {
-      parentAppName = info.parentAppName;
-      parentAppId = info.parentAppId;
-      isIAP = info.isIAP;
+  if (!hasMapping && Object.keys(overrides.products).length === 0) {
+    return { apps: null, unmappedProducts: null };
+  }
+
+  const apps = groupByParentApp(products, productMapping ?? new Map(), overrides);
+  apps.sort((a, b) => b.totalProceeds - a.totalProceeds);
+
+  return {
+    apps,
+    unmappedProducts: hasMapping ? getUnmappedProducts(products, productMapping, overrides) : null,
+  };
+}
+
+/**
+ * Writes earnings in the selected output format.
+ * Machine-readable formats go to --output when given, otherwise to stdout.
+ */
+function renderEarnings(
+  earnings: MonthEarnings[],
+  targetCurrency: string,
+  productMapping: Map<string, ProductInfo> | null,
+  comparison: EarningsComparison | null
+): void {
+  const overrides = getGroupingOverrides();
+
+  if (outputFormat !== "table") {
+    let content: string;
+
+    if (outputFormat === "json") {
+      content = formatEarningsJson(earnings, targetCurrency, {
+        productMapping,
+        overrides,
+        includeCountries: breakdownView === "country",
+        includePortfolios: breakdownView === "portfolio",
+      }) + "\n";
     } else {
-      // Fallback: use the product itself as the "app"
-      parentAppName = product.title;
-      parentAppId = product.appleIdentifier || product.sku;
-      isIAP = product.isIAP;
+      const delimiter = outputFormat === "csv" ? "," : "\t";
+      content = formatEarningsDelimited(earnings, targetCurrency, productMapping, delimiter, overrides);
     }
 
-    // Get or create the app entry
-    let app = appMap.get(parentAppId);
-
-    if (!app) {
-      app = {
-        appleIdentifier: parentAppId,
-        title: parentAppName,
-        sku: "",
-        totalProceeds: 0,
-        appProceeds: 0,
-        iaps: [],
-      };
-      appMap.set(parentAppId, app);
+    if (outputPath) {
+      writeFileSync(outputPath, content, "utf-8");
+      console.error(`\nWrote ${outputFormat.toUpperCase()} to ${outputPath}`);
+    } else {
+      process.stdout.write(content);
+    }
+    return;
+  }
+
+  const first = earnings[0].month;
+  const last = earnings[earnings.length - 1].month;
+  const periodTitle = first === last ? first.displayName : `${first.displayName} - ${last.displayName}`;
+
+  if (breakdownView === "country") {
+    displayCountryBreakdown(aggregateByCountry(earnings, productMapping, overrides), periodTitle);
+    return;
+  }
+
+  if (breakdownView === "refunds") {
+    displayRefundsReport(earnings, productMapping, periodTitle, overrides);
+    return;
+  }
+
+  if (breakdownView === "commission") {
+    displayCommissionReport(earnings, productMapping, periodTitle, overrides);
+    return;
+  }
+
+  if (breakdownView === "portfolio") {
+    displayPortfolioReport(aggregateByPortfolio(earnings, overrides, productMapping), periodTitle);
+    return;
+  }
+
+  // A range is shown as one pivot table (months as columns) instead of one tree per month
+  if (rangeArg) {
+    displayPivotTable(earnings);
+    return;
+  }
+
+  for (const monthEarnings of earnings) {
+    if (monthEarnings.products.length === 0) {
+      console.log(`\n  No earnings for ${monthEarnings.month.displayName}.\n`);
+      continue;
     }
 
-    // Add to the appropriate place
-    if (isIAP) {
-      app.iaps.push(product);
+    const displayOptions: EarningsDisplayOptions = {
+      comparison,
+      showRefunds,
+      exchangeRateSource: monthEarnings.exchangeRateSource,
+      unconvertedCurrencies: monthEarnings.unconvertedCurrencies,
+      settlements: monthEarnings.settlements,
+      unmappedProducts: monthEarnings.unmappedProducts,
+    };
+
+    if (monthEarnings.apps) {
+      displayEarningsTree(monthEarnings.apps, monthEarnings.month, monthEarnings.paymentInfo, displayOptions);
     } else {
-      app.appProceeds += product.totalProceeds;
+      // Flat display without grouping
+      displayFlatList(monthEarnings.products, monthEarnings.month, monthEarnings.paymentInfo, displayOptions);
     }
+  }
+}
+
+/**
+ * Optional extra columns for the tree and flat list views.
+ */
+interface EarningsDisplayOptions {
+  comparison?: EarningsComparison | null; // Adds an absolute/percentage change column
+  showRefunds?: boolean;                  // Adds a refunded amount column next to net proceeds
+  exchangeRateSource?: ExchangeRateSource; // Shown in the footer
+  unconvertedCurrencies?: string[];        // Currencies converted 1:1 (--lenient-fx)
+  settlements?: RegionSettlement[];        // Region payment summaries, shown as a reconciliation
+  unmappedProducts?: ProductEarnings[] | null; // Products missing from the mapping, listed under the tree
+}
+
+/**
+ * Formats the units, proceeds and per-unit columns of an earnings line.
+ */
+function formatAmountColumns(units: number, proceeds: number): string {
+  const perUnit = getAverageProceedsPerUnit(proceeds, units);
+  return `${units.toLocaleString("en-US").padStart(7)} ${formatCurrency(proceeds).padStart(12)} ` +
+    `${(perUnit !== null ? formatCurrency(perUnit) : "-").padStart(10)}`;
+}
 
-    app.totalProceeds += product.totalProceeds;
+/**
+ * Builds the optional columns appended to an earnings line.
+ */
+function formatExtraColumns(
+  options: EarningsDisplayOptions,
+  refunds: number,
+  current: number,
+  previous: number | undefined
+): string {
+  let columns = "";
+
+  if (options.showRefunds) {
+    columns += ` ${(refunds !== 0 ? formatCurrency(-refunds) : "").padStart(12)}`;
   }
 
-  // Sort IAPs within each app
-  for (const app of appMap.values()) {
-    app.iaps.sort((a, b) => b.totalProceeds - a.totalProceeds);
+  if (options.comparison) {
+    columns += ` ${formatChange(current, previous).padStart(19)}`;
   }
 
-  return Array.from(appMap.values());
+  return columns;
+}
+
+/**
+ * Marks a line whose amount includes currencies converted 1:1.
+ */
+function formatUnconvertedMarker(unconvertedCurrencies: string[]): string {
+  return unconvertedCurrencies.length > 0 ? "  *" : "";
+}
+
+/**
+ * Gets the TOTAL label, flagged when some currencies could not be converted.
+ */
+function getTotalLabel(options: EarningsDisplayOptions): string {
+  return options.unconvertedCurrencies?.length ? "TOTAL (incomplete)" : "TOTAL";
+}
+
+/**
+ * Explains the markers on lines with currencies converted 1:1.
+ */
+function displayUnconvertedNote(options: EarningsDisplayOptions): void {
+  if (!options.unconvertedCurrencies?.length) {
+    return;
+  }
+
+  console.log("");
+  console.log(`  * Includes ${options.unconvertedCurrencies.join(", ")} converted 1:1 (no exchange rate available).`);
+  console.log("    Totals are incomplete.");
+}
+
+/**
+ * Gets the extra width taken by the optional columns.
+ */
+function getExtraColumnsWidth(options: EarningsDisplayOptions): number {
+  return (options.showRefunds ? 13 : 0) + (options.comparison ? 20 : 0);
+}
+
+/**
+ * Displays the title line and the column labels.
+ */
+function displayEarningsHeader(month: CalendarMonth, options: EarningsDisplayOptions, labelWidth: number): void {
+  const { comparison } = options;
+  console.log(`\n  Earnings for ${month.displayName}${comparison ? ` vs ${comparison.month.displayName}` : ""}\n`);
+
+  const refundsLabel = options.showRefunds ? ` ${"Refunded".padStart(12)}` : "";
+  const changeLabel = comparison ? ` ${"Change".padStart(19)}` : "";
+  console.log(
+    `${"".padEnd(labelWidth)} ${"Units".padStart(7)} ${"Proceeds".padStart(12)} ${"Per Unit".padStart(10)}` +
+    `${refundsLabel}${changeLabel}`
+  );
 }
 
 /**
  * Displays earnings in a tree format with apps and their IAPs.
  */
-function displayEarningsTree(apps: AppWithIAPs[], month: CalendarMonth, paymentInfo: PaymentInfo | null): void {
-  console.log(`\n  Earnings for ${month.displayName}\n`);
+function displayEarningsTree(
+  apps: AppWithIAPs[],
+  month: CalendarMonth,
+  paymentInfo: PaymentInfo | null,
+  options: EarningsDisplayOptions = {}
+): void {
+  const { comparison } = options;
+  displayEarningsHeader(month, options, 39);
 
   let grandTotal = 0;
+  let grandUnits = 0;
+  let grandRefunds = 0;
 
   for (let i = 0; i < apps.length; i++) {
     const app = apps[i];
     const isLastApp = i === apps.length - 1;
 
     grandTotal += app.totalProceeds;
+    grandUnits += app.units;
+    grandRefunds += app.totalRefunds;
 
     // App header with tree branch
     const appPrefix = isLastApp ? "└── " : "├── ";
@@ -427,7 +1197,9 @@ function displayEarningsTree(apps: AppWithIAPs[], month: CalendarMonth, paymentI
       : app.title;
 
     console.log(
-      `${appPrefix}${truncatedTitle.padEnd(35)} ${formatCurrency(app.totalProceeds).padStart(12)}`
+      `${appPrefix}${truncatedTitle.padEnd(35)} ${formatAmountColumns(app.units, app.totalProceeds)}` +
+      formatExtraColumns(options, app.totalRefunds, app.totalProceeds, comparison?.appTotals.get(app.appleIdentifier)) +
+      formatUnconvertedMarker(app.unconvertedCurrencies)
     );
 
     // Show IAPs under the app
@@ -438,7 +1210,9 @@ function displayEarningsTree(apps: AppWithIAPs[], month: CalendarMonth, paymentI
       const hasIAPs = app.iaps.length > 0;
       const directBranch = hasIAPs ? "├── " : "└── ";
       console.log(
-        `${childPrefix}${directBranch}${"(App Sales)".padEnd(31)} ${formatCurrency(app.appProceeds).padStart(12)}`
+        `${childPrefix}${directBranch}${"(App Sales)".padEnd(31)} ${formatAmountColumns(app.appUnits, app.appProceeds)}` +
+        formatExtraColumns(options, app.appRefunds, app.appProceeds, comparison?.appSales.get(app.appleIdentifier)) +
+        formatUnconvertedMarker(app.appUnconvertedCurrencies)
       );
     }
 
@@ -453,7 +1227,9 @@ function displayEarningsTree(apps: AppWithIAPs[], month: CalendarMonth, paymentI
         : iap.title;
 
       console.log(
-        `${childPrefix}${iapBranch}${iapTitle.padEnd(31)} ${formatCurrency(iap.totalProceeds).padStart(12)}`
+        `${childPrefix}${iapBranch}${iapTitle.padEnd(31)} ${formatAmountColumns(iap.units, iap.totalProceeds)}` +
+        formatExtraColumns(options, iap.totalRefunds, iap.totalProceeds, comparison?.productTotals.get(getProductKey(iap))) +
+        formatUnconvertedMarker(iap.unconvertedCurrencies)
       );
     }
 
@@ -465,20 +1241,38 @@ function displayEarningsTree(apps: AppWithIAPs[], month: CalendarMonth, paymentI
 
   // Print total
   console.log("");
-  console.log("─".repeat(53));
-  console.log(`${"TOTAL".padStart(39)} ${formatCurrency(grandTotal).padStart(12)}`);
+  console.log("─".repeat(71 + getExtraColumnsWidth(options)));
+  console.log(
+    `${getTotalLabel(options).padStart(39)} ${formatAmountColumns(grandUnits, grandTotal)}` +
+    formatExtraColumns(options, grandRefunds, grandTotal, comparison?.totalProceeds)
+  );
+  displayUnconvertedNote(options);
+
+  if (comparison) {
+    displayMissingProducts(comparison, month);
+  }
+
+  displayUnmappedProducts(options.unmappedProducts ?? []);
 
   // Display payment info
-  displayPaymentSummary(paymentInfo, grandTotal);
+  displayPaymentSummary(paymentInfo, grandTotal, options);
 }
 
 /**
  * Displays earnings as a flat list (fallback when no mapping available).
  */
-function displayFlatList(products: ProductEarnings[], month: CalendarMonth, paymentInfo: PaymentInfo | null): void {
-  console.log(`\n  Earnings for ${month.displayName}\n`);
+function displayFlatList(
+  products: ProductEarnings[],
+  month: CalendarMonth,
+  paymentInfo: PaymentInfo | null,
+  options: EarningsDisplayOptions = {}
+): void {
+  const { comparison } = options;
+  displayEarningsHeader(month, options, 50);
 
   let total = 0;
+  let totalUnits = 0;
+  let totalRefunds = 0;
 
   for (const product of products) {
     const title = product.title.length > 40
@@ -487,34 +1281,110 @@ function displayFlatList(products: ProductEarnings[], month: CalendarMonth, paym
     const typeLabel = product.isIAP ? "[IAP]" : "[App]";
 
     console.log(
-      `  ${title.padEnd(42)} ${typeLabel} ${formatCurrency(product.totalProceeds).padStart(10)}`
+      `  ${title.padEnd(42)} ${typeLabel} ${formatAmountColumns(product.units, product.totalProceeds)}` +
+      formatExtraColumns(options, product.totalRefunds, product.totalProceeds, comparison?.productTotals.get(getProductKey(product))) +
+      formatUnconvertedMarker(product.unconvertedCurrencies)
     );
     total += product.totalProceeds;
+    totalUnits += product.units;
+    totalRefunds += product.totalRefunds;
   }
 
   console.log("");
-  console.log("─".repeat(65));
-  console.log(`${"TOTAL".padStart(50)} ${formatCurrency(total).padStart(12)}`);
+  console.log("─".repeat(82 + getExtraColumnsWidth(options)));
+  console.log(
+    `${getTotalLabel(options).padStart(50)} ${formatAmountColumns(totalUnits, total)}` +
+    formatExtraColumns(options, totalRefunds, total, comparison?.totalProceeds)
+  );
+  displayUnconvertedNote(options);
+
+  if (comparison) {
+    displayMissingProducts(comparison, month);
+  }
 
   // Display payment info
-  displayPaymentSummary(paymentInfo, total);
+  displayPaymentSummary(paymentInfo, total, options);
+}
+
+/**
+ * Lists products that earned in the comparison period but not in the current one.
+ */
+function displayMissingProducts(comparison: EarningsComparison, month: CalendarMonth): void {
+  if (comparison.missingProducts.length === 0) {
+    return;
+  }
+
+  console.log("");
+  console.log(`  Missing in ${month.displayName} (earned in ${comparison.month.displayName}):`);
+
+  for (const missing of comparison.missingProducts) {
+    const label = missing.parentAppTitle ? `${missing.parentAppTitle} / ${missing.title}` : missing.title;
+    const truncatedLabel = label.length > 48 ? label.substring(0, 45) + "..." : label;
+
+    console.log(
+      `    ${truncatedLabel.padEnd(48)} ${formatCurrency(missing.previousProceeds).padStart(12)}`
+    );
+  }
+}
+
+/**
+ * Lists products missing from the product mapping, which the tree shows as their own app.
+ */
+function displayUnmappedProducts(unmappedProducts: ProductEarnings[]): void {
+  if (unmappedProducts.length === 0) {
+    return;
+  }
+
+  console.log("");
+  console.log("  Unmapped products (not in the product mapping, shown as their own app above):");
+  console.log(`    ${"SKU".padEnd(32)} ${"Apple ID".padEnd(12)} Title`);
+
+  for (const product of unmappedProducts) {
+    const sku = product.sku.length > 32 ? product.sku.substring(0, 29) + "..." : product.sku;
+    console.log(`    ${sku.padEnd(32)} ${product.appleIdentifier.padEnd(12)} ${product.title}`);
+  }
+
+  if (!canOfferMappingRefresh()) {
+    console.log("  Run with --refresh-mapping to fetch the whole product mapping again.");
+  }
 }
 
 /**
  * Displays payment summary information as a footer.
  *
- * NOTE: Apple's Finance Reports API does not include actual payment date/status.
- * Payment status is ESTIMATED based on Apple's typical payment schedule (~33 days
- * after fiscal month end). Actual payment dates may vary slightly.
+ * When region reports with payment summaries are available, the actual deposit is shown
+ * with a reconciliation of each region's earnings.
  *
- * The amount shown is the same as the TOTAL (in target currency), which represents
- * the combined proceeds from all regions after currency conversion.
+ * Otherwise payment status is ESTIMATED based on Apple's typical payment schedule (~33 days
+ * after fiscal month end), and the amount shown is the same as the TOTAL (in target currency).
  */
-function displayPaymentSummary(paymentInfo: PaymentInfo | null, totalProceeds: number): void {
+function displayPaymentSummary(
+  paymentInfo: PaymentInfo | null,
+  totalProceeds: number,
+  options: EarningsDisplayOptions
+): void {
+  const { exchangeRateSource } = options;
   console.log("");
 
+  const deposits = buildPaymentDeposits(options.settlements ?? []);
+
+  if (deposits.length > 0) {
+    console.log("  Payment Status: Paid");
+
+    for (const deposit of deposits) {
+      console.log("");
+      displayPaymentReconciliation(deposit);
+    }
+
+    console.log("");
+    displayExchangeRateSource(exchangeRateSource);
+    console.log("");
+    return;
+  }
+
   if (!paymentInfo) {
     console.log("  Payment Info: Not available");
+    displayExchangeRateSource(exchangeRateSource);
     console.log("");
     return;
   }
@@ -541,14 +1411,27 @@ function displayPaymentSummary(paymentInfo: PaymentInfo | null, totalProceeds: n
     console.log(`  Amount: ~${amount}`);
   }
 
+  displayExchangeRateSource(exchangeRateSource);
   console.log("");
 }
 
+/**
+ * Displays which date's exchange rates the amounts were converted with.
+ */
+function displayExchangeRateSource(exchangeRateSource?: ExchangeRateSource): void {
+  if (exchangeRateSource) {
+    console.log(`  Exchange Rates: ${describeExchangeRateSource(exchangeRateSource)}`);
+  }
+}
+
 // Run the CLI
 main().catch((error) => {
   console.error("\nError:", error.message);
+  if (error instanceof CliError && error.hint) {
+    console.error(`Hint: ${error.hint}`);
+  }
   if (process.env.DEBUG) {
     console.error(error);
   }
-  process.exit(1);
+  process.exit(getExitCode(error));
 });
@@ -4,6 +4,8 @@ export interface AppStoreConnectConfig {
   keyId: string;
   privateKeyPath: string;
   vendorNumber: string;
+  requestTimeoutSeconds: number;        // 0 disables the timeout
+  maxRetries: number;
 }
 
 // App Store Connect API configuration (App Manager role - for app/IAP data)
@@ -11,6 +13,8 @@ export interface AppManagerConfig {
   issuerId: string;
   keyId: string;
   privateKeyPath: string;
+  requestTimeoutSeconds: number;        // 0 disables the timeout
+  maxRetries: number;
 }
 
 // Fiscal month representation (kept for reference)
@@ -61,6 +65,13 @@ export interface SalesReportRow {
   preservedPricing: string;
   client: string;
   orderType: string;
+  extra: Record<string, string>; // Columns the parser doesn't know, by header name
+}
+
+// An exact amount of money, in the currency's minor units (cents for USD, yen for JPY, fils for KWD)
+export interface Money {
+  minorUnits: number;          // Integer amount of minor units
+  currency: string;            // ISO 4217 code
 }
 
 // Financial Report row from Apple's TSV
@@ -72,8 +83,8 @@ export interface FinancialReportRow {
   isrcIsbn: string;            // SKU for apps, Product ID for IAP
   vendorIdentifier: string;    // SKU or Product ID
   quantity: number;            // Units sold (can be negative for refunds)
-  partnerShare: number;        // Proceeds per unit
-  extendedPartnerShare: number; // Total proceeds (quantity * partnerShare)
+  partnerShare: Money;         // Proceeds per unit
+  extendedPartnerShare: Money; // Total proceeds (quantity * partnerShare)
   partnerShareCurrency: string; // Currency of proceeds
   saleOrReturn: string;        // "S" for sale, "R" for return
   appleIdentifier: string;     // Apple ID of the app
@@ -86,8 +97,23 @@ export interface FinancialReportRow {
   countryOfSale: string;       // Two-character country code
   preOrderFlag: string;        // "P" or null
   promoCode: string;           // Promo code if applicable
-  customerPrice: number;       // Price charged to customer
+  customerPrice: Money;        // Price charged to customer
   customerCurrency: string;    // Customer's currency
+  extra: Record<string, string>; // Columns the parser doesn't know, by header name
+}
+
+// Summary lines at the end of a financial report section
+export interface ReportFooter {
+  currency: string | null;     // Currency of the totals, when the footer names one
+  totalRows: number | null;    // Total_Rows: number of data rows
+  totalAmount: string | null;  // Total_Amount as printed, so it can be parsed exactly
+  totalUnits: number | null;   // Total_Units: sum of quantities
+}
+
+// Data rows of a financial report followed by their footer (reports can contain several)
+export interface FinanceReportSection {
+  rows: FinancialReportRow[];
+  footer: ReportFooter | null; // Null when the report ends without one (e.g. a truncated download)
 }
 
 // Aggregated earnings per product (app or IAP)
@@ -97,8 +123,13 @@ export interface ProductEarnings {
   sku: string;
   productType: string; // Product type identifier (e.g., "1", "IA1", "IAY")
   isIAP: boolean; // True if this is an In-App Purchase
-  proceedsByCurrency: Record<string, number>;
+  proceedsByCurrency: Record<string, Money>; // Net proceeds (sales minus returns)
   totalProceeds: number; // Converted to target currency
+  units: number; // Net units sold (sales minus returns)
+  refundsByCurrency: Record<string, Money>; // Refunded proceeds from returns, as positive amounts
+  totalRefunds: number; // Refunded proceeds converted to target currency (positive)
+  refundUnits: number; // Units returned (positive)
+  unconvertedCurrencies: string[]; // Currencies converted 1:1 because no exchange rate was available
 }
 
 // App with its IAPs grouped together
@@ -108,6 +139,12 @@ export interface AppWithIAPs {
   sku: string;
   totalProceeds: number; // Total including all IAPs (in target currency)
   appProceeds: number; // Just the app itself (if any direct sales)
+  units: number; // Net units including all IAPs
+  appUnits: number; // Net units of the app itself
+  totalRefunds: number; // Refunded proceeds including all IAPs (positive, in target currency)
+  appRefunds: number; // Refunded proceeds of the app itself
+  unconvertedCurrencies: string[]; // Currencies converted 1:1, including all IAPs
+  appUnconvertedCurrencies: string[]; // Currencies converted 1:1 in the app's own sales
   iaps: ProductEarnings[]; // In-App Purchases belonging to this app
 }
 
@@ -127,6 +164,53 @@ export interface ExchangeRatesResponse {
   rates: Record<string, number>;
 }
 
+export interface ExchangeRatesTimeSeriesResponse {
+  base: string;
+  start_date: string;
+  end_date: string;
+  rates: Record<string, Record<string, number>>; // Date -> currency -> rate
+}
+
+// Exchange rates fetched for a set of currencies
+export interface ExchangeRateResult {
+  rates: Map<string, number>;           // Currency -> rate to target currency
+  failedCurrencies: string[];           // Currencies with no rate (set to 1:1 in rates)
+}
+
+// Exchange rate sources (see src/api/exchangeRateProviders.ts)
+export type ExchangeRateProviderName = "frankfurter" | "ecb-csv" | "manual";
+
+// A source of exchange rates
+export interface ExchangeRateProvider {
+  name: ExchangeRateProviderName;
+  cacheable: boolean;                   // Remote rates are cached on disk; local files are read directly
+  source: string;                       // Provider and its URL or file, so cached rates stay with their source
+  // Rate from baseCurrency to targetCurrency on a date (YYYY-MM-DD), or latest
+  getRate(baseCurrency: string, targetCurrency: string, date?: string): Promise<number>;
+  // Average rate between two dates (inclusive)
+  getAverageRate(
+    baseCurrency: string,
+    targetCurrency: string,
+    startDate: string,
+    endDate: string
+  ): Promise<number>;
+}
+
+// Which date's exchange rates are used to convert a report
+// - period-end: rates on the last day of the fiscal period (default)
+// - period-average: average of daily rates over the fiscal period
+// - payment-date: rates on the (estimated) payment date
+// - latest: today's rates
+export type FxRateStrategy = "period-end" | "period-average" | "payment-date" | "latest";
+
+// The exchange rates actually used for a month
+export interface ExchangeRateSource {
+  strategy: FxRateStrategy;
+  date: string | null;                  // YYYY-MM-DD the rates are for; null = latest
+  endDate: string | null;               // Last day averaged (period-average only)
+  settlementCurrencies: string[];       // Converted with Apple's own rates from region reports
+}
+
 // Cache metadata
 export interface CacheMetadata {
   fiscalYear: number;
@@ -147,3 +231,174 @@ export interface PaymentInfo {
   fiscalPeriodEnd: string;              // Period end date
   totalOwed: number | null;             // Total owed before payment (for pending)
 }
+
+// Payment summary of one region-specific finance report
+// Amounts are in the region currency unless noted; null when the report doesn't include them
+export interface RegionSettlement {
+  regionCode: string;                   // Finance report region (e.g. "US", "EU", "JP")
+  currency: string;                     // Region currency
+  units: number | null;
+  earned: number | null;                // Proceeds earned in the period
+  preTaxSubtotal: number | null;
+  inputTax: number | null;
+  adjustments: number | null;
+  withholdingTax: number | null;
+  totalOwed: number | null;
+  exchangeRate: number | null;          // Apple's rate from region currency to bank currency
+  proceeds: number | null;              // Amount paid, in bank currency
+  bankCurrency: string | null;
+  paymentDate: string | null;           // As printed in the report
+}
+
+// One Apple deposit: the regions paid together into a bank currency
+export interface PaymentDeposit {
+  bankCurrency: string;
+  paymentDate: string | null;           // As printed in the region reports
+  regions: RegionSettlement[];
+  amount: number;                       // Sum of the regions' proceeds, in bank currency
+  isComplete: boolean;                  // False if a region's paid amount is missing
+}
+
+// Output format selected with --format
+export type OutputFormat = "table" | "json" | "csv" | "tsv";
+
+// Earnings for a single month after parsing, aggregation and currency conversion
+export interface MonthEarnings {
+  month: CalendarMonth;
+  targetCurrency: string;
+  exchangeRates: Map<string, number>;   // Currency -> rate to target currency
+  exchangeRateSource: ExchangeRateSource;
+  unconvertedCurrencies: string[];      // Currencies without an exchange rate (converted 1:1)
+  settlements: RegionSettlement[];      // Payment summaries from region reports (may be empty)
+  rows: FinancialReportRow[];           // Parsed report rows (original currencies)
+  products: ProductEarnings[];          // Sorted by totalProceeds (descending)
+  apps: AppWithIAPs[] | null;           // Null when no product mapping is available
+  unmappedProducts: ProductEarnings[] | null; // Products missing from the mapping, shown as their own app (null without one)
+  paymentInfo: PaymentInfo | null;
+  totalProceeds: number;                // In target currency
+}
+
+// Document written to stdout by --format json.
+// schemaVersion is bumped whenever a field is removed or changes meaning.
+export interface EarningsJsonDocument {
+  schemaVersion: number;
+  generatedAt: string;                  // ISO 8601 timestamp
+  targetCurrency: string;
+  reports: EarningsJsonReport[];        // One entry per requested month, oldest first
+}
+
+// A single month inside EarningsJsonDocument
+export interface EarningsJsonReport {
+  month: string;                        // Calendar month (YYYY-MM)
+  displayName: string;                  // e.g., "August 2025"
+  reportDate: string;                   // Fiscal report date sent to Apple (YYYY-MM)
+  totalProceeds: number;                // In target currency
+  exchangeRates: Record<string, number>; // Currency -> rate to target currency
+  exchangeRateSource: ExchangeRateSource;
+  unconvertedCurrencies: string[];      // Currencies without an exchange rate (converted 1:1)
+  incomplete: boolean;                  // True when totalProceeds includes unconverted amounts
+  settlements: RegionSettlement[];
+  deposits: PaymentDeposit[];           // settlements grouped into deposits (empty = not paid yet)
+  apps: JsonAppWithIAPs[] | null;       // Null when no product mapping is available
+  unmappedProducts: JsonUnmappedProduct[] | null; // Products missing from the mapping (null without one)
+  products: JsonProductEarnings[];      // Every product, ungrouped
+  payment: PaymentInfo | null;
+  countries?: CountryBreakdown;         // Only with --by country
+  portfolios?: PortfolioEarnings[];     // Only with --by portfolio
+}
+
+// ProductEarnings in JSON output: amounts in major units, converted totals rounded to the target currency
+export interface JsonProductEarnings extends Omit<ProductEarnings, "proceedsByCurrency" | "refundsByCurrency"> {
+  proceedsByCurrency: Record<string, number>; // e.g., { "USD": 100.50, "JPY": 1200 }
+  refundsByCurrency: Record<string, number>;
+}
+
+// AppWithIAPs in JSON output
+export interface JsonAppWithIAPs extends Omit<AppWithIAPs, "iaps"> {
+  iaps: JsonProductEarnings[];
+}
+
+// A product the mapping doesn't know, in JSON output
+export type JsonUnmappedProduct = Pick<ProductEarnings, "sku" | "appleIdentifier" | "title" | "productType">;
+
+// Comparison period selected with --compare
+export type ComparisonMode = "prev" | "yoy";
+
+// Earnings of a comparison period, indexed for lookups while displaying the current period
+export interface EarningsComparison {
+  month: CalendarMonth;                  // The period being compared against
+  totalProceeds: number;                 // Total proceeds of the comparison period
+  appTotals: Map<string, number>;        // App ID -> total proceeds
+  appSales: Map<string, number>;         // App ID -> direct app proceeds
+  productTotals: Map<string, number>;    // Product key (SKU or Apple ID) -> total proceeds
+  missingProducts: MissingProduct[];     // Earned in the comparison period but not in the current one
+}
+
+// A product that earned in the comparison period but not in the current period
+export interface MissingProduct {
+  title: string;
+  parentAppTitle: string | null;         // Null when no product mapping is available
+  previousProceeds: number;              // In target currency
+}
+
+// Breakdown view selected with --by
+export type BreakdownView = "country" | "refunds" | "commission" | "portfolio";
+
+// Earnings for a single country of sale
+export interface CountryEarnings {
+  countryCode: string;                   // Two-character country code
+  units: number;                         // Net units (returns subtract)
+  totalProceeds: number;                 // In target currency
+  share: number | null;                  // Fraction (0-1) of the enclosing total, null when it's 0 or less
+}
+
+// Country breakdown for a single app
+export interface AppCountryEarnings {
+  appleIdentifier: string;
+  title: string;
+  totalProceeds: number;                 // In target currency
+  countries: CountryEarnings[];          // Sorted by totalProceeds (descending)
+}
+
+// Earnings broken down by country of sale, overall and per app (--by country)
+export interface CountryBreakdown {
+  totalProceeds: number;                 // In target currency
+  countries: CountryEarnings[];          // Sorted by totalProceeds (descending)
+  apps: AppCountryEarnings[];            // Sorted by totalProceeds (descending)
+}
+
+// Override for a product (by SKU or Apple ID) in overrides.json
+export interface ProductOverride {
+  parentAppId?: string;                  // Group under this app instead of the mapped one
+  title?: string;                        // Display name
+}
+
+// Override for an app (by Apple ID) in overrides.json
+export interface AppOverride {
+  title?: string;                        // Display name
+  mergeInto?: string;                    // Roll this app and its products into another app (e.g. a retired app's successor)
+  portfolio?: string;                    // Portfolio group for --by portfolio (e.g. "Games")
+}
+
+// User-defined grouping overrides, applied on top of the product mapping
+export interface GroupingOverrides {
+  products: Record<string, ProductOverride>;
+  apps: Record<string, AppOverride>;
+}
+
+// An app's totals inside a portfolio
+export interface PortfolioApp {
+  appleIdentifier: string;
+  title: string;
+  units: number;
+  totalProceeds: number;                 // In target currency
+}
+
+// Apps rolled up into a portfolio group (--by portfolio)
+export interface PortfolioEarnings {
+  name: string | null;                   // Null for apps without a portfolio
+  units: number;
+  totalProceeds: number;                 // In target currency
+  share: number | null;                  // Fraction of all proceeds (0-1), null when they're 0 or less
+  apps: PortfolioApp[];                  // Sorted by totalProceeds (descending)
+}
@@ -1,6 +1,7 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 import { getCacheDir, ensureDir } from "../config/loader.js";
+import { CliError, EXIT_CODES } from "./errors.js";
 import type { CalendarMonth } from "../types.js";
 
 /**
@@ -20,31 +21,33 @@ function ensureCacheDir(): void {
 
 /**
  * Gets the cache filename for a calendar month.
+ * Region-specific reports get the region code appended (e.g. 2025-09-EU.tsv).
  */
-function getCacheFilename(month: CalendarMonth): string {
-  return `${month.year}-${month.month.toString().padStart(2, "0")}.tsv`;
+function getCacheFilename(month: CalendarMonth, regionCode?: string): string {
+  const monthKey = `${month.year}-${month.month.toString().padStart(2, "0")}`;
+  return regionCode ? `${monthKey}-${regionCode}.tsv` : `${monthKey}.tsv`;
 }
 
 /**
  * Gets the full path to a cached report file.
  */
-function getCachePath(month: CalendarMonth): string {
-  return join(getReportsCacheDir(), getCacheFilename(month));
+function getCachePath(month: CalendarMonth, regionCode?: string): string {
+  return join(getReportsCacheDir(), getCacheFilename(month, regionCode));
 }
 
 /**
  * Checks if a cached report exists for the given month.
  */
-export function isCached(month: CalendarMonth): boolean {
-  return existsSync(getCachePath(month));
+export function isCached(month: CalendarMonth, regionCode?: string): boolean {
+  return existsSync(getCachePath(month, regionCode));
 }
 
 /**
  * Reads a cached report for the given month.
  * Returns null if not cached.
  */
-export function readCache(month: CalendarMonth): string | null {
-  const cachePath = getCachePath(month);
+export function readCache(month: CalendarMonth, regionCode?: string): string | null {
+  const cachePath = getCachePath(month, regionCode);
 
   if (!existsSync(cachePath)) {
     return null;
@@ -56,11 +59,21 @@ export function readCache(month: CalendarMonth): string | null {
 /**
  * Writes a report to the cache.
  */
-export function writeCache(month: CalendarMonth, content: string): void {
+export function writeCache(month: CalendarMonth, content: string, regionCode?: string): void {
   ensureCacheDir();
 
-  const cachePath = getCachePath(month);
+  const cachePath = getCachePath(month, regionCode);
 
   // Write the report content
   writeFileSync(cachePath, content, "utf-8");
 }
+
+/**
+ * Error class for when --offline needs data that hasn't been cached yet.
+ */
+export class OfflineDataMissingError extends CliError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.offlineData, "Run once without --offline to download it first.");
+    this.name = "OfflineDataMissingError";
+  }
+}
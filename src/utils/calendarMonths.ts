@@ -128,3 +128,75 @@ export function getRecentCalendarMonths(count: number = 12): CalendarMonth[] {
 export function getCacheFilename(calendarMonth: CalendarMonth): string {
   return `${calendarMonth.year}-${calendarMonth.month.toString().padStart(2, "0")}.tsv`;
 }
+
+// The App Store opened in July 2008, so there are no earlier reports
+const FIRST_REPORT_YEAR = 2008;
+
+/**
+ * Parses a "YYYY-MM" string (e.g., "2025-09") into a CalendarMonth.
+ * Throws if the value is not a valid calendar month.
+ */
+export function parseCalendarMonth(value: string): CalendarMonth {
+  const match = /^(\d{4})-(\d{1,2})$/.exec(value.trim());
+  
+  if (!match) {
+    throw new Error(`Invalid month "${value}". Expected format: YYYY-MM (e.g., 2025-09)`);
+  }
+  
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  
+  if (month < 1 || month > 12) {
+    throw new Error(`Invalid month "${value}". Month must be between 01 and 12.`);
+  }
+  
+  if (year < FIRST_REPORT_YEAR) {
+    throw new Error(`Invalid month "${value}". The App Store has no reports before ${FIRST_REPORT_YEAR}.`);
+  }
+  
+  return createCalendarMonth(year, month);
+}
+
+/**
+ * Parses a "YYYY-MM..YYYY-MM" range (inclusive) into a list of CalendarMonths.
+ * Returns oldest month first.
+ */
+export function parseCalendarMonthRange(value: string): CalendarMonth[] {
+  const parts = value.split("..");
+  
+  if (parts.length !== 2) {
+    throw new Error(`Invalid range "${value}". Expected format: YYYY-MM..YYYY-MM (e.g., 2025-01..2025-06)`);
+  }
+  
+  const start = parseCalendarMonth(parts[0]);
+  const end = parseCalendarMonth(parts[1]);
+  
+  if (end.year * 12 + end.month < start.year * 12 + start.month) {
+    throw new Error(`Invalid range "${value}". End month is before start month.`);
+  }
+  
+  const months: CalendarMonth[] = [];
+  let year = start.year;
+  let month = start.month;
+  
+  while (year < end.year || (year === end.year && month <= end.month)) {
+    months.push(createCalendarMonth(year, month));
+    
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  
+  return months;
+}
+
+/**
+ * Returns the calendar month `offset` months away from the given month.
+ * Negative offsets go back in time (e.g., -1 = previous month, -12 = same month last year).
+ */
+export function shiftCalendarMonth(calendarMonth: CalendarMonth, offset: number): CalendarMonth {
+  const index = calendarMonth.year * 12 + (calendarMonth.month - 1) + offset;
+  return createCalendarMonth(Math.floor(index / 12), (index % 12) + 1);
+}
@@ -0,0 +1,206 @@
+import Table from "cli-table3";
+import { formatCurrency } from "../api/exchangeRates.js";
+import type { ProductInfo } from "../api/appStore.js";
+import type { FinancialReportRow, GroupingOverrides, MonthEarnings } from "../types.js";
+import { findProductOverride, resolveParentApp } from "./productGrouping.js";
+import { NO_GROUPING_OVERRIDES } from "../config/overrides.js";
+import { formatCountry } from "./countryBreakdown.js";
+import { convertMoney } from "./money.js";
+
+/**
+ * Gross (customer-facing) and net (proceeds) amounts in target currency.
+ */
+interface GrossNetStats {
+  title: string;
+  gross: number;
+  net: number;
+}
+
+/**
+ * Gross and net amounts for an app together with its products.
+ */
+interface AppGrossNetStats extends GrossNetStats {
+  products: Map<string, GrossNetStats>;
+}
+
+/**
+ * Gross and net amounts by product and by country.
+ */
+interface CommissionBreakdown {
+  apps: AppGrossNetStats[];
+  countries: GrossNetStats[];
+  total: GrossNetStats;
+}
+
+/**
+ * Gets the customer currencies used in report rows.
+ * These can differ from the proceeds currencies and need their own exchange rates.
+ */
+export function getCustomerCurrencies(rows: FinancialReportRow[]): string[] {
+  const currencies = new Set<string>();
+
+  for (const row of rows) {
+    if (row.customerCurrency) {
+      currencies.add(row.customerCurrency);
+    }
+  }
+
+  return Array.from(currencies);
+}
+
+/**
+ * Adds gross and net amounts to running stats.
+ */
+function addAmounts(stats: GrossNetStats, gross: number, net: number): void {
+  stats.gross += gross;
+  stats.net += net;
+}
+
+/**
+ * Aggregates customer-facing gross revenue and net proceeds by product and country.
+ *
+ * Gross is customer price x quantity in the customer's currency; net is the extended
+ * partner share in the proceeds currency. Both are converted with the month's rates.
+ * Customer prices include VAT/sales tax where applicable, so the difference covers
+ * Apple's commission plus taxes.
+ */
+function aggregateGrossAndNet(
+  earnings: MonthEarnings[],
+  productMapping: Map<string, ProductInfo> | null,
+  overrides: GroupingOverrides
+): CommissionBreakdown {
+  const mapping = productMapping ?? new Map<string, ProductInfo>();
+  const apps = new Map<string, AppGrossNetStats>();
+  const countries = new Map<string, GrossNetStats>();
+  const total: GrossNetStats = { title: "TOTAL", gross: 0, net: 0 };
+
+  for (const monthEarnings of earnings) {
+    const { exchangeRates } = monthEarnings;
+
+    for (const row of monthEarnings.rows) {
+      const productKey = row.vendorIdentifier || row.appleIdentifier;
+      if (!productKey) continue;
+
+      const customerRate = exchangeRates.get(row.customerPrice.currency) || 1;
+      const proceedsRate = exchangeRates.get(row.extendedPartnerShare.currency) || 1;
+
+      // Quantity carries the sign for returns
+      const gross = Math.abs(convertMoney(row.customerPrice, customerRate)) * row.quantity;
+      const net = convertMoney(row.extendedPartnerShare, proceedsRate);
+
+      const reportProduct = {
+        sku: row.vendorIdentifier,
+        appleIdentifier: row.appleIdentifier,
+        title: row.title || row.vendorIdentifier,
+        isIAP: row.productTypeIdentifier.startsWith("IA"),
+      };
+      const { parentAppId, parentAppName, isIAP } = resolveParentApp(reportProduct, mapping, overrides);
+      const title = findProductOverride(reportProduct, overrides)?.title ?? reportProduct.title;
+
+      let app = apps.get(parentAppId);
+      if (!app) {
+        app = { title: parentAppName, gross: 0, net: 0, products: new Map() };
+        apps.set(parentAppId, app);
+      }
+
+      let product = app.products.get(productKey);
+      if (!product) {
+        product = { title: isIAP ? title : "(App Sales)", gross: 0, net: 0 };
+        app.products.set(productKey, product);
+      }
+
+      const countryCode = row.countryOfSale || "??";
+      let country = countries.get(countryCode);
+      if (!country) {
+        country = { title: countryCode, gross: 0, net: 0 };
+        countries.set(countryCode, country);
+      }
+
+      addAmounts(product, gross, net);
+      addAmounts(app, gross, net);
+      addAmounts(country, gross, net);
+      addAmounts(total, gross, net);
+    }
+  }
+
+  return {
+    apps: Array.from(apps.values()).sort((a, b) => b.gross - a.gross),
+    countries: Array.from(countries.values()).sort((a, b) => b.gross - a.gross),
+    total,
+  };
+}
+
+/**
+ * Formats gross, net, Apple's take and the take rate for a table row.
+ */
+function formatStats(stats: GrossNetStats): string[] {
+  const take = stats.gross - stats.net;
+  const takeRate = stats.gross !== 0 ? (take / stats.gross) * 100 : 0;
+
+  return [
+    formatCurrency(stats.gross),
+    formatCurrency(stats.net),
+    formatCurrency(take),
+    `${takeRate.toFixed(1)}%`,
+  ];
+}
+
+/**
+ * Creates a table with the gross/net columns.
+ */
+function createCommissionTable(firstColumn: string): Table.Table {
+  return new Table({
+    head: [firstColumn, "Gross", "Net Proceeds", "Commission + Tax", "Take Rate"],
+    colAligns: ["left", "right", "right", "right", "right"],
+    style: { head: [], border: [], compact: true },
+  });
+}
+
+/**
+ * Displays customer-facing gross revenue against net proceeds, with the effective
+ * commission/tax take rate per app, product and country.
+ */
+export function displayCommissionReport(
+  earnings: MonthEarnings[],
+  productMapping: Map<string, ProductInfo> | null,
+  title: string,
+  overrides: GroupingOverrides = NO_GROUPING_OVERRIDES
+): void {
+  const breakdown = aggregateGrossAndNet(earnings, productMapping, overrides);
+
+  console.log(`\n  Gross vs Net for ${title}\n`);
+
+  const productTable = createCommissionTable("App / Product");
+
+  for (const app of breakdown.apps) {
+    const appTitle = app.title.length > 32 ? app.title.substring(0, 29) + "..." : app.title;
+    productTable.push([appTitle, ...formatStats(app)]);
+
+    const products = Array.from(app.products.values()).sort((a, b) => b.gross - a.gross);
+
+    // A single "(App Sales)" row would only repeat the app row
+    if (products.length > 1 || products[0]?.title !== "(App Sales)") {
+      products.forEach((product, index) => {
+        const branch = index === products.length - 1 ? "└ " : "├ ";
+        const productTitle = product.title.length > 28 ? product.title.substring(0, 25) + "..." : product.title;
+        productTable.push([`${branch}${productTitle}`, ...formatStats(product)]);
+      });
+    }
+  }
+
+  productTable.push(["TOTAL", ...formatStats(breakdown.total)]);
+  console.log(productTable.toString());
+
+  console.log("\n  By Country\n");
+
+  const countryTable = createCommissionTable("Country");
+
+  for (const country of breakdown.countries) {
+    countryTable.push([formatCountry(country.title), ...formatStats(country)]);
+  }
+
+  countryTable.push(["TOTAL", ...formatStats(breakdown.total)]);
+  console.log(countryTable.toString());
+
+  console.log("\n  Gross uses customer prices, which include VAT/sales tax in many countries.\n");
+}
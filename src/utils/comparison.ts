@@ -0,0 +1,87 @@
+import { formatCurrency } from "../api/exchangeRates.js";
+import type { EarningsComparison, MissingProduct, MonthEarnings, ProductEarnings } from "../types.js";
+
+/**
+ * Gets the key used to match a product across periods.
+ */
+export function getProductKey(product: ProductEarnings): string {
+  return product.sku || product.appleIdentifier;
+}
+
+/**
+ * Indexes a comparison period's earnings against the current period.
+ * Products that earned in the comparison period but not in the current one are
+ * collected as missing so they can be flagged.
+ */
+export function buildComparison(
+  current: MonthEarnings,
+  previous: MonthEarnings
+): EarningsComparison {
+  const appTotals = new Map<string, number>();
+  const appSales = new Map<string, number>();
+  const productTotals = new Map<string, number>();
+
+  for (const app of previous.apps ?? []) {
+    appTotals.set(app.appleIdentifier, app.totalProceeds);
+    appSales.set(app.appleIdentifier, app.appProceeds);
+  }
+
+  for (const product of previous.products) {
+    productTotals.set(getProductKey(product), product.totalProceeds);
+  }
+
+  const currentKeys = new Set(current.products.map(getProductKey));
+  const missingProducts: MissingProduct[] = [];
+
+  if (previous.apps) {
+    for (const app of previous.apps) {
+      for (const iap of app.iaps) {
+        if (!currentKeys.has(getProductKey(iap))) {
+          missingProducts.push({ title: iap.title, parentAppTitle: app.title, previousProceeds: iap.totalProceeds });
+        }
+      }
+    }
+
+    // Apps whose direct sales disappeared (the app may still earn through IAPs)
+    const currentAppSales = new Map((current.apps ?? []).map((app) => [app.appleIdentifier, app.appProceeds]));
+    for (const app of previous.apps) {
+      if (app.appProceeds !== 0 && !currentAppSales.get(app.appleIdentifier)) {
+        missingProducts.push({ title: "(App Sales)", parentAppTitle: app.title, previousProceeds: app.appProceeds });
+      }
+    }
+  } else {
+    for (const product of previous.products) {
+      if (!currentKeys.has(getProductKey(product))) {
+        missingProducts.push({ title: product.title, parentAppTitle: null, previousProceeds: product.totalProceeds });
+      }
+    }
+  }
+
+  missingProducts.sort((a, b) => b.previousProceeds - a.previousProceeds);
+
+  return {
+    month: previous.month,
+    totalProceeds: previous.totalProceeds,
+    appTotals,
+    appSales,
+    productTotals,
+    missingProducts,
+  };
+}
+
+/**
+ * Formats the change between two amounts as an absolute and percentage delta,
+ * e.g. "+$12.30  +10.5%". Returns "NEW" when there is no previous amount.
+ */
+export function formatChange(current: number, previous: number | undefined): string {
+  if (previous === undefined || previous === 0) {
+    return current === 0 ? "" : "NEW";
+  }
+
+  const diff = current - previous;
+  const absolute = diff >= 0 ? `+${formatCurrency(diff)}` : formatCurrency(diff);
+  const percent = (diff / Math.abs(previous)) * 100;
+  const percentLabel = `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`;
+
+  return `${absolute.padStart(11)} ${percentLabel.padStart(7)}`;
+}
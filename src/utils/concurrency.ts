@@ -0,0 +1,25 @@
+/**
+ * Runs an async function over items with at most `limit` calls in flight.
+ * Results are returned in the order of the items. Errors are not caught,
+ * so callers that want to keep going should handle them inside `fn`.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,191 @@
+import Table from "cli-table3";
+import { formatCurrency } from "../api/exchangeRates.js";
+import type { ProductInfo } from "../api/appStore.js";
+import type { CountryBreakdown, CountryEarnings, GroupingOverrides, MonthEarnings } from "../types.js";
+import { resolveParentApp } from "./productGrouping.js";
+import { NO_GROUPING_OVERRIDES } from "../config/overrides.js";
+import { convertMoney } from "./money.js";
+import { isEarningsRow } from "./parseFinanceReport.js";
+
+/**
+ * Running totals for a country while aggregating.
+ */
+interface CountryTotals {
+  units: number;
+  totalProceeds: number;
+}
+
+/**
+ * Adds a row's units and converted proceeds to a country in the given map.
+ */
+function addToCountry(
+  countries: Map<string, CountryTotals>,
+  countryCode: string,
+  units: number,
+  proceeds: number
+): void {
+  const totals = countries.get(countryCode) ?? { units: 0, totalProceeds: 0 };
+  totals.units += units;
+  totals.totalProceeds += proceeds;
+  countries.set(countryCode, totals);
+}
+
+/**
+ * Converts running totals into sorted CountryEarnings with revenue shares.
+ */
+function toCountryEarnings(countries: Map<string, CountryTotals>, total: number): CountryEarnings[] {
+  return Array.from(countries.entries())
+    .map(([countryCode, totals]) => ({
+      countryCode,
+      units: totals.units,
+      totalProceeds: totals.totalProceeds,
+      // A share of a net loss (refunds outweighing sales) isn't meaningful
+      share: total > 0 ? totals.totalProceeds / total : null,
+    }))
+    .sort((a, b) => b.totalProceeds - a.totalProceeds);
+}
+
+/**
+ * Aggregates proceeds and units by country of sale, overall and per app.
+ * Each month is converted with its own exchange rates, so ranges can be combined.
+ */
+export function aggregateByCountry(
+  earnings: MonthEarnings[],
+  productMapping: Map<string, ProductInfo> | null,
+  overrides: GroupingOverrides = NO_GROUPING_OVERRIDES
+): CountryBreakdown {
+  const mapping = productMapping ?? new Map<string, ProductInfo>();
+  const overall = new Map<string, CountryTotals>();
+  const apps = new Map<string, { title: string; countries: Map<string, CountryTotals> }>();
+  let totalProceeds = 0;
+
+  for (const monthEarnings of earnings) {
+    for (const row of monthEarnings.rows) {
+      if (!isEarningsRow(row)) continue;
+
+      const rate = monthEarnings.exchangeRates.get(row.extendedPartnerShare.currency) || 1;
+      const proceeds = convertMoney(row.extendedPartnerShare, rate);
+      const countryCode = row.countryOfSale || "??";
+
+      const { parentAppId, parentAppName } = resolveParentApp(
+        {
+          sku: row.vendorIdentifier,
+          appleIdentifier: row.appleIdentifier,
+          title: row.title || row.vendorIdentifier,
+          isIAP: row.productTypeIdentifier.startsWith("IA"),
+        },
+        mapping,
+        overrides
+      );
+
+      let app = apps.get(parentAppId);
+      if (!app) {
+        app = { title: parentAppName, countries: new Map() };
+        apps.set(parentAppId, app);
+      }
+
+      addToCountry(overall, countryCode, row.quantity, proceeds);
+      addToCountry(app.countries, countryCode, row.quantity, proceeds);
+      totalProceeds += proceeds;
+    }
+  }
+
+  const appBreakdowns = Array.from(apps.entries()).map(([appleIdentifier, app]) => {
+    let appTotal = 0;
+    for (const totals of app.countries.values()) {
+      appTotal += totals.totalProceeds;
+    }
+
+    return {
+      appleIdentifier,
+      title: app.title,
+      totalProceeds: appTotal,
+      countries: toCountryEarnings(app.countries, appTotal),
+    };
+  });
+
+  appBreakdowns.sort((a, b) => b.totalProceeds - a.totalProceeds);
+
+  return {
+    totalProceeds,
+    countries: toCountryEarnings(overall, totalProceeds),
+    apps: appBreakdowns,
+  };
+}
+
+/**
+ * Gets a display name for a country code, e.g. "United States (US)".
+ */
+export function formatCountry(countryCode: string): string {
+  try {
+    const name = new Intl.DisplayNames(["en"], { type: "region" }).of(countryCode);
+    return name && name !== countryCode ? `${name} (${countryCode})` : countryCode;
+  } catch {
+    return countryCode;
+  }
+}
+
+/**
+ * Formats a fraction as a percentage with one decimal ("-" when there is no share).
+ */
+function formatShare(share: number | null): string {
+  return share === null ? "-" : `${(share * 100).toFixed(1)}%`;
+}
+
+/**
+ * Creates a table with the country columns.
+ */
+function createCountryTable(firstColumn: string): Table.Table {
+  return new Table({
+    head: [firstColumn, "Units", "Proceeds", "Share"],
+    colAligns: ["left", "right", "right", "right"],
+    style: { head: [], border: [], compact: true },
+  });
+}
+
+/**
+ * Displays earnings by country of sale: one table across all apps, then one per app.
+ * Shares in the per-app table are relative to that app's total.
+ */
+export function displayCountryBreakdown(breakdown: CountryBreakdown, title: string): void {
+  console.log(`\n  Earnings by Country for ${title}\n`);
+
+  const overallTable = createCountryTable("Country");
+
+  for (const country of breakdown.countries) {
+    overallTable.push([
+      formatCountry(country.countryCode),
+      country.units.toString(),
+      formatCurrency(country.totalProceeds),
+      formatShare(country.share),
+    ]);
+  }
+
+  const totalUnits = breakdown.countries.reduce((sum, country) => sum + country.units, 0);
+  overallTable.push(["TOTAL", totalUnits.toString(), formatCurrency(breakdown.totalProceeds), ""]);
+
+  console.log(overallTable.toString());
+
+  console.log("\n  By App\n");
+
+  const appTable = createCountryTable("App / Country");
+
+  for (const app of breakdown.apps) {
+    const appTitle = app.title.length > 32 ? app.title.substring(0, 29) + "..." : app.title;
+    const appUnits = app.countries.reduce((sum, country) => sum + country.units, 0);
+    appTable.push([appTitle, appUnits.toString(), formatCurrency(app.totalProceeds), ""]);
+
+    app.countries.forEach((country, index) => {
+      const branch = index === app.countries.length - 1 ? "└ " : "├ ";
+      appTable.push([
+        `${branch}${formatCountry(country.countryCode)}`,
+        country.units.toString(),
+        formatCurrency(country.totalProceeds),
+        formatShare(country.share),
+      ]);
+    });
+  }
+
+  console.log(appTable.toString());
+  console.log("");
+}
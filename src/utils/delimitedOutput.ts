@@ -0,0 +1,131 @@
+import type { ProductInfo } from "../api/appStore.js";
+import type { GroupingOverrides, MonthEarnings } from "../types.js";
+import { findProductOverride, resolveParentApp } from "./productGrouping.js";
+import { NO_GROUPING_OVERRIDES } from "../config/overrides.js";
+import { getAverageProceedsPerUnit } from "./parseFinanceReport.js";
+import { formatMoneyDecimal, getCurrencyExponent } from "./money.js";
+
+export type Delimiter = "," | "\t";
+
+/**
+ * Escapes a single field for CSV or TSV output.
+ * CSV fields are quoted when they contain the delimiter, quotes or newlines.
+ * TSV has no quoting, so tabs and newlines are replaced with spaces.
+ */
+function escapeField(value: string, delimiter: Delimiter): string {
+  if (delimiter === "\t") {
+    return value.replace(/[\t\r\n]+/g, " ");
+  }
+
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  return value;
+}
+
+/**
+ * Keeps spreadsheets from evaluating text as a formula (e.g. a product titled "=HYPERLINK(...)").
+ * Only used for text columns, so negative amounts stay numbers.
+ */
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Formats a converted amount with the currency's number of decimals, as Apple does in its reports.
+ */
+function formatAmount(amount: number, currency: string): string {
+  return amount.toFixed(getCurrencyExponent(currency));
+}
+
+/**
+ * Formats product-level earnings as CSV or TSV with one row per product.
+ *
+ * Columns:
+ * - Month, Parent App, Title, SKU, Apple ID, Product Type, Is IAP, Units
+ * - "Proceeds XXX" and "Rate XXX" for every original currency across all months
+ * - "Total YYY" and "Per Unit YYY" in the target currency
+ *
+ * Parent App comes from the product mapping and grouping overrides, as in the tree; it is
+ * empty when products aren't grouped and falls back to the product title for unmapped products.
+ */
+export function formatEarningsDelimited(
+  earnings: MonthEarnings[],
+  targetCurrency: string,
+  productMapping: Map<string, ProductInfo> | null,
+  delimiter: Delimiter,
+  overrides: GroupingOverrides = NO_GROUPING_OVERRIDES
+): string {
+  // Collect every currency so all rows share the same columns
+  const currencySet = new Set<string>();
+  for (const monthEarnings of earnings) {
+    for (const product of monthEarnings.products) {
+      for (const currency of Object.keys(product.proceedsByCurrency)) {
+        currencySet.add(currency);
+      }
+    }
+  }
+  const currencies = Array.from(currencySet).sort();
+
+  const header = [
+    "Month",
+    "Parent App",
+    "Title",
+    "SKU",
+    "Apple ID",
+    "Product Type",
+    "Is IAP",
+    "Units",
+    ...currencies.flatMap((currency) => [`Proceeds ${currency}`, `Rate ${currency}`]),
+    `Total ${targetCurrency}`,
+    `Per Unit ${targetCurrency}`,
+  ];
+
+  const lines = [header.map((field) => escapeField(field, delimiter)).join(delimiter)];
+
+  for (const monthEarnings of earnings) {
+    const { month, exchangeRates } = monthEarnings;
+    const monthKey = `${month.year}-${month.month.toString().padStart(2, "0")}`;
+
+    for (const product of monthEarnings.products) {
+      // Same grouping as the tree: products are grouped when there's a mapping or product overrides
+      let parentApp = "";
+      if (monthEarnings.apps !== null) {
+        parentApp = resolveParentApp(product, productMapping ?? new Map(), overrides).parentAppName;
+      }
+
+      const currencyFields = currencies.flatMap((currency) => {
+        const amount = product.proceedsByCurrency[currency];
+        if (amount === undefined) {
+          return ["", ""];
+        }
+        return [formatMoneyDecimal(amount), String(exchangeRates.get(currency) ?? 1)];
+      });
+
+      const perUnit = getAverageProceedsPerUnit(product.totalProceeds, product.units);
+
+      const textFields = [
+        parentApp,
+        findProductOverride(product, overrides)?.title ?? product.title,
+        product.sku,
+        product.appleIdentifier,
+        product.productType,
+      ].map(neutralizeFormula);
+
+      const fields = [
+        monthKey,
+        ...textFields,
+        product.isIAP ? "true" : "false",
+        product.units.toString(),
+        ...currencyFields,
+        formatAmount(product.totalProceeds, targetCurrency),
+        perUnit !== null ? formatAmount(perUnit, targetCurrency) : "",
+      ];
+
+      lines.push(fields.map((field) => escapeField(field, delimiter)).join(delimiter));
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,215 @@
+import type { ProductInfo } from "../api/appStore.js";
+import type { CalendarMonth } from "../types.js";
+import { estimatePaymentDate } from "./parseFinanceReport.js";
+
+/**
+ * A fake product sold in demo mode.
+ */
+interface DemoProduct {
+  appleIdentifier: string;
+  title: string;
+  sku: string;
+  productType: string;
+  parentAppId: string;
+  customerPrice: number;
+  partnerShare: number;
+  // Units sold per country in a typical month
+  unitsByCountry: Record<string, number>;
+  // Units refunded per country in a typical month
+  refundsByCountry?: Record<string, number>;
+}
+
+const DEMO_APPS: Record<string, string> = {
+  "1234567890": "Photo Editor Pro",
+  "2345678901": "Task Manager",
+  "3456789012": "Weather Plus",
+};
+
+const DEMO_PRODUCTS: DemoProduct[] = [
+  {
+    appleIdentifier: "1234567891",
+    title: "Pro Subscription (Yearly)",
+    sku: "yearly_sub",
+    productType: "IAY",
+    parentAppId: "1234567890",
+    customerPrice: 29.99,
+    partnerShare: 24.99,
+    unitsByCountry: { US: 14, GB: 6, DE: 4 },
+  },
+  {
+    appleIdentifier: "1234567892",
+    title: "Pro Subscription (Monthly)",
+    sku: "monthly_sub",
+    productType: "IAY",
+    parentAppId: "1234567890",
+    customerPrice: 3.99,
+    partnerShare: 2.99,
+    unitsByCountry: { US: 30, JP: 20, BR: 14 },
+    refundsByCountry: { US: 1 },
+  },
+  {
+    appleIdentifier: "1234567893",
+    title: "Remove Watermarks",
+    sku: "remove_watermarks",
+    productType: "IA1",
+    parentAppId: "1234567890",
+    customerPrice: 9.99,
+    partnerShare: 6.99,
+    unitsByCountry: { US: 5, GB: 3 },
+  },
+  {
+    appleIdentifier: "2345678901",
+    title: "Task Manager",
+    sku: "com.demo.taskmanager",
+    productType: "1",
+    parentAppId: "2345678901",
+    customerPrice: 4.99,
+    partnerShare: 3.49,
+    unitsByCountry: { US: 10 },
+  },
+  {
+    appleIdentifier: "2345678902",
+    title: "Premium Upgrade",
+    sku: "premium",
+    productType: "IA1",
+    parentAppId: "2345678901",
+    customerPrice: 9.99,
+    partnerShare: 6.99,
+    unitsByCountry: { US: 20, DE: 8 },
+    refundsByCountry: { DE: 1 },
+  },
+  {
+    appleIdentifier: "3456789012",
+    title: "Weather Plus",
+    sku: "com.demo.weatherplus",
+    productType: "1",
+    parentAppId: "3456789012",
+    customerPrice: 3.99,
+    partnerShare: 2.99,
+    unitsByCountry: { US: 20, GB: 10 },
+  },
+];
+
+const REPORT_HEADER = [
+  "Start Date", "End Date", "UPC", "ISRC/ISBN", "Vendor Identifier", "Quantity",
+  "Partner Share", "Extended Partner Share", "Partner Share Currency", "Sales or Return",
+  "Apple Identifier", "Artist/Show/Developer/Author", "Title",
+  "Label/Studio/Network/Developer/Publisher", "Grid", "Product Type Identifier",
+  "ISAN/Other Identifier", "Country Of Sale", "Pre-order Flag", "Promo Code",
+  "Customer Price", "Customer Currency",
+];
+
+/**
+ * Formats a date as MM/DD/YYYY, as used in Apple's reports.
+ */
+function formatReportDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${month}/${day}/${date.getFullYear()}`;
+}
+
+/**
+ * Builds a fake consolidated financial report (TSV) for a month.
+ * Unit counts vary slightly from month to month so comparisons are not flat.
+ */
+export function buildDemoReport(month: CalendarMonth): string {
+  const startDate = formatReportDate(new Date(month.year, month.month - 1, 1));
+  const endDate = formatReportDate(new Date(month.year, month.month, 0));
+  const variation = ((month.year * 12 + month.month) % 5) - 2;
+
+  const lines = [REPORT_HEADER.join("\t")];
+  let totalAmount = 0;
+  let totalUnits = 0;
+
+  const addRow = (product: DemoProduct, country: string, quantity: number, saleOrReturn: string): void => {
+    const extendedPartnerShare = Math.round(quantity * product.partnerShare * 100) / 100;
+    totalAmount += extendedPartnerShare;
+    totalUnits += quantity;
+
+    lines.push([
+      startDate, endDate, "", product.sku, product.sku, quantity.toString(),
+      product.partnerShare.toFixed(2), extendedPartnerShare.toFixed(2), "USD", saleOrReturn,
+      product.appleIdentifier, "Demo Studio", product.title,
+      "", "", product.productType,
+      "", country, "", "",
+      product.customerPrice.toFixed(2), "USD",
+    ].join("\t"));
+  };
+
+  for (const product of DEMO_PRODUCTS) {
+    for (const [country, units] of Object.entries(product.unitsByCountry)) {
+      addRow(product, country, Math.max(1, units + variation), "S");
+    }
+
+    for (const [country, units] of Object.entries(product.refundsByCountry ?? {})) {
+      addRow(product, country, -units, "R");
+    }
+  }
+
+  lines.push("");
+  lines.push(`Total_Rows\t${lines.length - 2}`);
+  lines.push(`Total_Amount\t${totalAmount.toFixed(2)}`);
+  lines.push(`Total_Units\t${totalUnits}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Builds the fake region-specific report for a month once it has been paid.
+ * All demo sales are in USD, so there is a single US region paid 1:1 into a USD account.
+ */
+export function buildDemoRegionReports(month: CalendarMonth, now: Date = new Date()): Map<string, string> {
+  const paymentDate = estimatePaymentDate(new Date(month.year, month.month, 0));
+  if (paymentDate > now) {
+    return new Map();
+  }
+
+  const report = buildDemoReport(month);
+  const salesRows = report.split("\n\n")[0];
+  const earned = parseFloat(/^Total_Amount\t(.*)$/m.exec(report)![1]);
+  const units = parseInt(/^Total_Units\t(.*)$/m.exec(report)![1]);
+
+  const summary = [
+    [
+      "Region Currency", "Units Sold", "Earned", "Pre-Tax Subtotal", "Input Tax", "Adjustments",
+      "Withholding Tax", "Total Owed", "Exchange Rate", "Proceeds", "Bank Account Currency", "Payment Date",
+    ],
+    [
+      "USD", units.toString(), earned.toFixed(2), earned.toFixed(2), "0.00", "0.00",
+      "0.00", earned.toFixed(2), "1.000000", earned.toFixed(2), "USD", formatReportDate(paymentDate),
+    ],
+  ];
+
+  return new Map([["US", `${salesRows}\n\n${summary.map((row) => row.join("\t")).join("\n")}\n`]]);
+}
+
+/**
+ * Builds the product mapping for the demo apps, as buildProductMapping would.
+ */
+export function buildDemoProductMapping(): Map<string, ProductInfo> {
+  const mapping = new Map<string, ProductInfo>();
+
+  for (const [appId, appName] of Object.entries(DEMO_APPS)) {
+    mapping.set(appId, {
+      productId: appId,
+      productName: appName,
+      parentAppId: appId,
+      parentAppName: appName,
+      isIAP: false,
+    });
+  }
+
+  for (const product of DEMO_PRODUCTS) {
+    if (!product.productType.startsWith("IA")) continue;
+
+    mapping.set(product.sku, {
+      productId: product.sku,
+      productName: product.title,
+      parentAppId: product.parentAppId,
+      parentAppName: DEMO_APPS[product.parentAppId],
+      isIAP: true,
+    });
+  }
+
+  return mapping;
+}
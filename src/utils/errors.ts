@@ -0,0 +1,86 @@
+/**
+ * Process exit codes, one per kind of failure, so scripts can tell them apart.
+ */
+export const EXIT_CODES = {
+  general: 1,                           // Unexpected error
+  usage: 2,                             // Invalid flags or arguments
+  configuration: 3,                     // Missing or invalid configuration
+  privateKey: 4,                        // Private key missing or unreadable
+  authentication: 5,                    // API key rejected (invalid or expired token)
+  forbidden: 6,                         // API key lacks the required role
+  vendorNumber: 7,                      // Vendor number doesn't belong to the account
+  reportNotAvailable: 8,                // Report not published yet
+  network: 9,                           // Network failure, timeout, rate limiting or Apple server error
+  parse: 10,                            // Report couldn't be parsed or doesn't add up
+  exchangeRate: 11,                     // Exchange rate missing (--strict-fx)
+  offlineData: 12,                      // Data not cached (--offline)
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/**
+ * Base class for errors the CLI expects and can explain.
+ * Carries the exit code to use and, where possible, a hint on how to fix the problem.
+ */
+export class CliError extends Error {
+  exitCode: ExitCode;
+  hint: string | null;
+
+  constructor(message: string, exitCode: ExitCode, hint: string | null = null) {
+    super(message);
+    this.name = "CliError";
+    this.exitCode = exitCode;
+    this.hint = hint;
+  }
+}
+
+/**
+ * Error class for invalid flags or arguments.
+ */
+export class UsageError extends CliError {
+  constructor(message: string) {
+    super(message, EXIT_CODES.usage, "Run with --help to see available options.");
+    this.name = "UsageError";
+  }
+}
+
+/**
+ * Error class for missing or invalid configuration.
+ */
+export class ConfigurationError extends CliError {
+  constructor(message: string, hint: string | null = "Run with --setup to configure interactively, or --status to see the current configuration.") {
+    super(message, EXIT_CODES.configuration, hint);
+    this.name = "ConfigurationError";
+  }
+}
+
+/**
+ * Error class for a private key that can't be found or isn't a valid .p8 key.
+ */
+export class PrivateKeyError extends CliError {
+  constructor(message: string) {
+    super(
+      message,
+      EXIT_CODES.privateKey,
+      "Point ASC_PRIVATE_KEY_PATH / privateKeyPath at the AuthKey_XXXXXXXXXX.p8 file downloaded from App Store Connect (or use base64:<content>)."
+    );
+    this.name = "PrivateKeyError";
+  }
+}
+
+/**
+ * Error class for reports that can't be parsed or don't match their own totals.
+ */
+export class ReportParseError extends CliError {
+  constructor(message: string, hint: string | null) {
+    super(message, EXIT_CODES.parse, hint);
+    this.name = "ReportParseError";
+  }
+}
+
+/**
+ * Gets the exit code for any error (unexpected errors exit with 1).
+ */
+export function getExitCode(error: unknown): ExitCode {
+  return error instanceof CliError ? error.exitCode : EXIT_CODES.general;
+}
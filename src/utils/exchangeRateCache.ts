@@ -0,0 +1,77 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getCacheDir, ensureDir } from "../config/loader.js";
+
+/**
+ * Gets the exchange rate cache file path.
+ * Uses XDG-compliant location: ~/.cache/appstore-earnings-cli/exchange-rates.json
+ */
+function getRatesFilePath(): string {
+  return join(getCacheDir(), "exchange-rates.json");
+}
+
+// Latest rates expire after an hour; historical rates never change so they never expire
+const LATEST_EXPIRY_MS = 60 * 60 * 1000;
+
+interface CachedRate {
+  timestamp: number;
+  rate: number;
+}
+
+/**
+ * Builds the cache key for a rate.
+ * The source identifies the provider (e.g. "frankfurter:https://api.frankfurter.app"), so rates
+ * cached from another provider, URL or file aren't used after switching.
+ * The period is a date (YYYY-MM-DD), a date range (start..end) or "latest".
+ */
+export function getRateCacheKey(source: string, baseCurrency: string, targetCurrency: string, period: string): string {
+  return `${source}|${baseCurrency}/${targetCurrency}/${period}`;
+}
+
+/**
+ * Reads all cached rates.
+ */
+function readRatesFile(): Record<string, CachedRate> {
+  const ratesFile = getRatesFilePath();
+
+  if (!existsSync(ratesFile)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(ratesFile, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads a cached rate.
+ * Returns null if not cached, or if it is an expired latest rate (unless allowExpired).
+ */
+export function readCachedRate(key: string, allowExpired = false): number | null {
+  const cached = readRatesFile()[key];
+
+  if (!cached) {
+    return null;
+  }
+
+  const isLatest = key.endsWith("/latest");
+  if (isLatest && !allowExpired && Date.now() - cached.timestamp >= LATEST_EXPIRY_MS) {
+    return null;
+  }
+
+  return cached.rate;
+}
+
+/**
+ * Writes a rate to the cache.
+ */
+export function writeCachedRate(key: string, rate: number): void {
+  ensureDir(getCacheDir());
+
+  const rates = readRatesFile();
+  rates[key] = { timestamp: Date.now(), rate };
+
+  writeFileSync(getRatesFilePath(), JSON.stringify(rates, null, 2), "utf-8");
+}
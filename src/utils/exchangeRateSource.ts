@@ -0,0 +1,153 @@
+import {
+  fetchAverageExchangeRates,
+  fetchExchangeRates,
+  type ExchangeRateOptions,
+} from "../api/exchangeRates.js";
+import { loadConfig } from "../config/loader.js";
+import { ConfigurationError } from "./errors.js";
+import { estimatePaymentDate, parseReportDate } from "./parseFinanceReport.js";
+import type { ExchangeRateResult, ExchangeRateSource, FxRateStrategy, PaymentInfo } from "../types.js";
+
+export const FX_RATE_STRATEGIES: FxRateStrategy[] = [
+  "period-end",
+  "period-average",
+  "payment-date",
+  "latest",
+];
+
+const STRATEGY_LABELS: Record<FxRateStrategy, string> = {
+  "period-end": "period end",
+  "period-average": "period average",
+  "payment-date": "payment date",
+  latest: "latest",
+};
+
+/**
+ * Validates an exchange rate strategy name.
+ */
+export function parseFxRateStrategy(value: string): FxRateStrategy {
+  const strategy = value.trim().toLowerCase();
+  if ((FX_RATE_STRATEGIES as string[]).includes(strategy)) {
+    return strategy as FxRateStrategy;
+  }
+  throw new Error(
+    `Invalid exchange rate strategy "${value}". Use one of: ${FX_RATE_STRATEGIES.join(", ")}`
+  );
+}
+
+/**
+ * Gets the exchange rate strategy from config, defaulting to period-end.
+ * An invalid FX_RATE_STRATEGY / fxRateStrategy is a configuration error.
+ */
+export function getFxRateStrategy(): FxRateStrategy {
+  try {
+    return parseFxRateStrategy(loadConfig().fxRateStrategy);
+  } catch (error) {
+    throw new ConfigurationError(`${(error as Error).message} (FX_RATE_STRATEGY / fxRateStrategy)`);
+  }
+}
+
+/**
+ * Formats a date as YYYY-MM-DD (local time, matching how report dates are parsed).
+ */
+function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Works out which date's rates to use for a report.
+ * Dates that are still in the future (or missing from the report) fall back to latest rates.
+ */
+export function resolveExchangeRateSource(
+  strategy: FxRateStrategy,
+  paymentInfo: PaymentInfo | null,
+  now: Date = new Date()
+): ExchangeRateSource {
+  const source = (date: Date | null, endDate: Date | null = null): ExchangeRateSource => ({
+    strategy,
+    date: date ? formatIsoDate(date) : null,
+    endDate: endDate ? formatIsoDate(endDate) : null,
+    settlementCurrencies: [],
+  });
+  const latest = source(null);
+
+  if (strategy === "latest" || !paymentInfo) {
+    return latest;
+  }
+
+  const periodStart = parseReportDate(paymentInfo.fiscalPeriodStart);
+  const periodEnd = parseReportDate(paymentInfo.fiscalPeriodEnd);
+  if (!periodEnd) {
+    return latest;
+  }
+
+  switch (strategy) {
+    case "period-end":
+      return periodEnd > now ? latest : source(periodEnd);
+
+    case "period-average":
+      if (!periodStart || periodStart > now) {
+        return latest;
+      }
+      return source(periodStart, periodEnd > now ? now : periodEnd);
+
+    case "payment-date": {
+      const paymentDate = estimatePaymentDate(periodEnd);
+      return paymentDate > now ? latest : source(paymentDate);
+    }
+  }
+}
+
+/**
+ * Fetches the rates described by an exchange rate source.
+ */
+export async function fetchExchangeRatesForSource(
+  currencies: string[],
+  source: ExchangeRateSource,
+  options: ExchangeRateOptions = {}
+): Promise<ExchangeRateResult> {
+  if (source.date && source.endDate) {
+    return fetchAverageExchangeRates(currencies, source.date, source.endDate, options);
+  }
+  return fetchExchangeRates(currencies, source.date ?? undefined, options);
+}
+
+/**
+ * Describes the strategy used across several months, e.g. "period end of each month".
+ */
+export function describeFxRateStrategy(strategy: FxRateStrategy): string {
+  return strategy === "latest" ? "latest" : `${STRATEGY_LABELS[strategy]} of each month`;
+}
+
+/**
+ * Describes which rates were used, e.g. "period end (2025-09-27)".
+ * Currencies converted with Apple's settlement rates are listed first.
+ */
+export function describeExchangeRateSource(source: ExchangeRateSource): string {
+  const strategyDescription = describeStrategyRates(source);
+
+  if (source.settlementCurrencies.length > 0) {
+    return `Apple settlement (${source.settlementCurrencies.join(", ")}), otherwise ${strategyDescription}`;
+  }
+  return strategyDescription;
+}
+
+/**
+ * Describes the rates picked by the strategy.
+ */
+function describeStrategyRates(source: ExchangeRateSource): string {
+  const label = STRATEGY_LABELS[source.strategy];
+
+  if (source.date && source.endDate) {
+    return `${label} (${source.date} to ${source.endDate})`;
+  }
+  if (source.date) {
+    return `${label} (${source.date})`;
+  }
+  if (source.strategy !== "latest") {
+    return `latest (${label} not reached yet)`;
+  }
+  return "latest";
+}
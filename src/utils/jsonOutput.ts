@@ -0,0 +1,167 @@
+import type { ProductInfo } from "../api/appStore.js";
+import type {
+  AppWithIAPs,
+  CountryBreakdown,
+  CountryEarnings,
+  EarningsJsonDocument,
+  EarningsJsonReport,
+  GroupingOverrides,
+  JsonAppWithIAPs,
+  JsonProductEarnings,
+  Money,
+  MonthEarnings,
+  ProductEarnings,
+} from "../types.js";
+import { aggregateByCountry } from "./countryBreakdown.js";
+import { aggregateByPortfolio } from "./portfolioReport.js";
+import { roundToMinorUnits, toMajorUnits } from "./money.js";
+import { buildPaymentDeposits } from "./paymentReconciliation.js";
+
+/**
+ * Version of the --format json document.
+ * Adding fields is backwards compatible; removing or renaming one is not.
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * Optional sections added to each JSON report.
+ */
+export interface JsonOutputOptions {
+  productMapping: Map<string, ProductInfo> | null;
+  overrides: GroupingOverrides;
+  includeCountries: boolean;            // Adds "countries" (--by country)
+  includePortfolios: boolean;           // Adds "portfolios" (--by portfolio)
+}
+
+/**
+ * Converts exact per-currency amounts into major-unit numbers.
+ */
+function toJsonAmounts(amounts: Record<string, Money>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(amounts).map(([currency, amount]) => [currency, toMajorUnits(amount)])
+  );
+}
+
+/**
+ * Converts a product for JSON output, rounding converted totals to the target currency.
+ */
+function toJsonProduct(product: ProductEarnings, targetCurrency: string): JsonProductEarnings {
+  return {
+    ...product,
+    proceedsByCurrency: toJsonAmounts(product.proceedsByCurrency),
+    totalProceeds: roundToMinorUnits(product.totalProceeds, targetCurrency),
+    refundsByCurrency: toJsonAmounts(product.refundsByCurrency),
+    totalRefunds: roundToMinorUnits(product.totalRefunds, targetCurrency),
+  };
+}
+
+/**
+ * Rounds a country breakdown's converted amounts to the target currency.
+ */
+function toJsonCountryBreakdown(breakdown: CountryBreakdown, targetCurrency: string): CountryBreakdown {
+  const roundCountries = (countries: CountryEarnings[]): CountryEarnings[] =>
+    countries.map((country) => ({
+      ...country,
+      totalProceeds: roundToMinorUnits(country.totalProceeds, targetCurrency),
+    }));
+
+  return {
+    totalProceeds: roundToMinorUnits(breakdown.totalProceeds, targetCurrency),
+    countries: roundCountries(breakdown.countries),
+    apps: breakdown.apps.map((app) => ({
+      ...app,
+      totalProceeds: roundToMinorUnits(app.totalProceeds, targetCurrency),
+      countries: roundCountries(app.countries),
+    })),
+  };
+}
+
+/**
+ * Converts an app and its IAPs for JSON output.
+ */
+function toJsonApp(app: AppWithIAPs, targetCurrency: string): JsonAppWithIAPs {
+  return {
+    ...app,
+    totalProceeds: roundToMinorUnits(app.totalProceeds, targetCurrency),
+    appProceeds: roundToMinorUnits(app.appProceeds, targetCurrency),
+    totalRefunds: roundToMinorUnits(app.totalRefunds, targetCurrency),
+    appRefunds: roundToMinorUnits(app.appRefunds, targetCurrency),
+    iaps: app.iaps.map((iap) => toJsonProduct(iap, targetCurrency)),
+  };
+}
+
+/**
+ * Converts a month's earnings into its JSON report representation.
+ */
+function toJsonReport(earnings: MonthEarnings, targetCurrency: string, options: JsonOutputOptions): EarningsJsonReport {
+  const { month } = earnings;
+
+  const report: EarningsJsonReport = {
+    month: `${month.year}-${month.month.toString().padStart(2, "0")}`,
+    displayName: month.displayName,
+    reportDate: month.reportDate,
+    totalProceeds: roundToMinorUnits(earnings.totalProceeds, targetCurrency),
+    exchangeRates: Object.fromEntries(earnings.exchangeRates),
+    exchangeRateSource: earnings.exchangeRateSource,
+    unconvertedCurrencies: earnings.unconvertedCurrencies,
+    incomplete: earnings.unconvertedCurrencies.length > 0,
+    settlements: earnings.settlements,
+    deposits: buildPaymentDeposits(earnings.settlements),
+    apps: earnings.apps?.map((app) => toJsonApp(app, targetCurrency)) ?? null,
+    unmappedProducts: earnings.unmappedProducts?.map(({ sku, appleIdentifier, title, productType }) => ({
+      sku,
+      appleIdentifier,
+      title,
+      productType,
+    })) ?? null,
+    products: earnings.products.map((product) => toJsonProduct(product, targetCurrency)),
+    payment: earnings.paymentInfo,
+  };
+
+  if (options.includeCountries) {
+    report.countries = toJsonCountryBreakdown(
+      aggregateByCountry([earnings], options.productMapping, options.overrides),
+      targetCurrency
+    );
+  }
+
+  if (options.includePortfolios) {
+    report.portfolios = aggregateByPortfolio([earnings], options.overrides, options.productMapping).map((portfolio) => ({
+      ...portfolio,
+      totalProceeds: roundToMinorUnits(portfolio.totalProceeds, targetCurrency),
+      apps: portfolio.apps.map((app) => ({
+        ...app,
+        totalProceeds: roundToMinorUnits(app.totalProceeds, targetCurrency),
+      })),
+    }));
+  }
+
+  return report;
+}
+
+/**
+ * Builds the JSON document for one or more months of earnings.
+ */
+export function buildEarningsJson(
+  earnings: MonthEarnings[],
+  targetCurrency: string,
+  options: JsonOutputOptions
+): EarningsJsonDocument {
+  return {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    targetCurrency,
+    reports: earnings.map((monthEarnings) => toJsonReport(monthEarnings, targetCurrency, options)),
+  };
+}
+
+/**
+ * Serializes earnings as a pretty-printed JSON string.
+ */
+export function formatEarningsJson(
+  earnings: MonthEarnings[],
+  targetCurrency: string,
+  options: JsonOutputOptions
+): string {
+  return JSON.stringify(buildEarningsJson(earnings, targetCurrency, options), null, 2);
+}
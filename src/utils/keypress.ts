@@ -0,0 +1,25 @@
+/**
+ * Shows a message on stderr and waits for a single keypress on the terminal.
+ * Returns the key pressed, lowercased. Ctrl+C exits as it would anywhere else.
+ */
+export function readKey(message: string): Promise<string> {
+  const { stdin } = process;
+
+  return new Promise((resolve) => {
+    process.stderr.write(message);
+    stdin.setRawMode(true);
+    stdin.resume();
+
+    stdin.once("data", (data) => {
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+
+      const key = data.toString();
+      if (key === "\u0003") {
+        process.exit(130);
+      }
+      resolve(key.toLowerCase());
+    });
+  });
+}
@@ -0,0 +1,117 @@
+import { findProductInfo } from "./productGrouping.js";
+import { parseReportDate } from "./parseFinanceReport.js";
+import { isMappingExpired, type MappingCache } from "./productMappingCache.js";
+import type { AppSummary, ProductInfo } from "../api/appStore.js";
+import type { FinancialReportRow } from "../types.js";
+
+/**
+ * A product in a report that the product mapping doesn't know.
+ */
+export interface UnmappedProduct {
+  sku: string;
+  appleIdentifier: string;
+  soldUntil: number;                    // End of the latest period it was sold in (ms), 0 if unknown
+}
+
+/**
+ * Finds the products in report rows that aren't in the mapping.
+ */
+export function findUnmappedProducts(
+  rows: FinancialReportRow[],
+  mapping: Map<string, ProductInfo>
+): UnmappedProduct[] {
+  const unmapped = new Map<string, UnmappedProduct>();
+
+  for (const row of rows) {
+    const product = { sku: row.vendorIdentifier, appleIdentifier: row.appleIdentifier };
+    if (findProductInfo(product, mapping)) continue;
+
+    const key = `${product.sku}|${product.appleIdentifier}`;
+    const soldUntil = parseReportDate(row.endDate)?.getTime() ?? 0;
+    const existing = unmapped.get(key);
+
+    if (!existing || soldUntil > existing.soldUntil) {
+      unmapped.set(key, { ...product, soldUntil });
+    }
+  }
+
+  return [...unmapped.values()];
+}
+
+/**
+ * Gets the apps that may own a product: the app itself when its Apple ID is an app's,
+ * otherwise those whose bundle ID prefixes its SKU (com.example.app.coins belongs to
+ * com.example.app), or every app when none does.
+ */
+function getCandidateApps(
+  product: Pick<UnmappedProduct, "sku" | "appleIdentifier">,
+  apps: AppSummary[]
+): AppSummary[] {
+  const app = apps.find((app) => app.id === product.appleIdentifier);
+  if (app) {
+    return [app];
+  }
+
+  const matching = apps.filter((app) =>
+    app.bundleId && (product.sku === app.bundleId || product.sku.startsWith(`${app.bundleId}.`))
+  );
+  return matching.length > 0 ? matching : apps;
+}
+
+/**
+ * Picks the listed apps whose products should be fetched again:
+ * - apps whose cached products have expired
+ * - apps that may own an unmapped product but were fetched before it was last sold
+ *   (once fetched after that, a product still missing isn't theirs, so it isn't fetched again)
+ * New apps aren't included; they're always fetched.
+ */
+export function selectAppsToRefresh(
+  cache: MappingCache,
+  apps: AppSummary[],
+  unmappedProducts: UnmappedProduct[]
+): string[] {
+  const selected = new Set<string>();
+
+  for (const app of apps) {
+    if (cache.apps[app.id] && isMappingExpired(cache.apps[app.id].fetchedAt)) {
+      selected.add(app.id);
+    }
+  }
+
+  for (const product of unmappedProducts) {
+    for (const app of getCandidateApps(product, apps)) {
+      if (cache.apps[app.id] && cache.apps[app.id].fetchedAt < product.soldUntil) {
+        selected.add(app.id);
+      }
+    }
+  }
+
+  return [...selected];
+}
+
+/**
+ * Picks the listed apps that may own the given products, however recently they were fetched.
+ */
+export function selectAppsOwning(
+  apps: AppSummary[],
+  products: Array<Pick<UnmappedProduct, "sku" | "appleIdentifier">>
+): string[] {
+  return [...new Set(products.flatMap((product) => getCandidateApps(product, apps).map((app) => app.id)))];
+}
+
+/**
+ * Checks whether the cached mapping needs an update before it can be used: the list of apps
+ * or any app has expired, or an unmapped product was sold after the apps that may own it were
+ * fetched (including after the list of apps was fetched, in case it belongs to a new app).
+ */
+export function needsMappingRefresh(cache: MappingCache, unmappedProducts: UnmappedProduct[]): boolean {
+  if (isMappingExpired(cache.appsFetchedAt)) {
+    return true;
+  }
+  if (unmappedProducts.some((product) => cache.appsFetchedAt < product.soldUntil)) {
+    return true;
+  }
+
+  const cachedApps = Object.entries(cache.apps).map(([id, app]) => ({ id, name: app.appName, bundleId: app.bundleId }));
+  return selectAppsToRefresh(cache, cachedApps, unmappedProducts).length > 0;
+}
@@ -0,0 +1,104 @@
+import type { Money } from "../types.js";
+
+// ISO 4217 minor unit exponents that differ from the usual 2
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+/**
+ * Gets the number of minor unit digits for a currency (JPY: 0, USD: 2, KWD: 3).
+ */
+export function getCurrencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency] ?? 2;
+}
+
+/**
+ * Creates a zero amount in a currency.
+ */
+export function zeroMoney(currency: string): Money {
+  return { minorUnits: 0, currency };
+}
+
+/**
+ * Parses a decimal amount from a report ("-12.34", "1,234.5") into exact minor units.
+ * Digits beyond the currency's exponent are rounded half away from zero.
+ * Unparseable values are zero, matching how the reports' empty cells were treated.
+ */
+export function parseMoney(value: string, currency: string): Money {
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(value.trim().replace(/,/g, ""));
+  if (!match || (!match[2] && !match[3])) {
+    return zeroMoney(currency);
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  const exponent = getCurrencyExponent(currency);
+  const paddedFraction = fraction.padEnd(exponent + 1, "0");
+
+  let minorUnits = parseInt((whole || "0") + paddedFraction.slice(0, exponent), 10);
+  if (parseInt(paddedFraction[exponent], 10) >= 5) {
+    minorUnits += 1;
+  }
+
+  return { minorUnits: sign === "-" && minorUnits !== 0 ? -minorUnits : minorUnits, currency };
+}
+
+/**
+ * Adds two amounts in the same currency.
+ */
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot add ${b.currency} to ${a.currency}`);
+  }
+  return { minorUnits: a.minorUnits + b.minorUnits, currency: a.currency };
+}
+
+/**
+ * Sums amounts that were printed with at most the currency's number of decimals (e.g. payment summaries),
+ * adding them as minor units so the total is exact.
+ */
+export function sumAmounts(amounts: number[], currency: string): number {
+  const factor = 10 ** getCurrencyExponent(currency);
+  const minorUnits = amounts.reduce((sum, amount) => sum + Math.round(amount * factor), 0);
+  return toMajorUnits({ minorUnits, currency });
+}
+
+/**
+ * Gets an amount in major units (e.g. dollars), as the closest number.
+ */
+export function toMajorUnits(money: Money): number {
+  return money.minorUnits / 10 ** getCurrencyExponent(money.currency);
+}
+
+/**
+ * Converts an amount at an exchange rate.
+ * The result is in major units of the target currency and is deliberately not rounded;
+ * rounding happens only when it's displayed.
+ */
+export function convertMoney(money: Money, rate: number): number {
+  return toMajorUnits(money) * rate;
+}
+
+/**
+ * Formats an amount as an exact decimal string with the currency's number of digits ("-12.30").
+ */
+export function formatMoneyDecimal(money: Money): string {
+  const exponent = getCurrencyExponent(money.currency);
+  const digits = Math.abs(money.minorUnits).toString().padStart(exponent + 1, "0");
+  const sign = money.minorUnits < 0 ? "-" : "";
+
+  if (exponent === 0) {
+    return `${sign}${digits}`;
+  }
+  return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
+
+/**
+ * Rounds a converted amount to the minor units of its currency, for output.
+ */
+export function roundToMinorUnits(amount: number, currency: string): number {
+  const factor = 10 ** getCurrencyExponent(currency);
+  return Math.round(amount * factor) / factor;
+}
@@ -1,114 +1,241 @@
-import type { FinancialReportRow, ProductEarnings, PaymentInfo } from "../types.js";
+import { addMoney, convertMoney, parseMoney, zeroMoney } from "./money.js";
+import {
+  getExtraFields,
+  getField,
+  isBlankRecord,
+  isHeaderRecord,
+  mapColumns,
+  parseTsv,
+  type ColumnMap,
+  type ColumnNames,
+} from "./tsv.js";
+import type {
+  FinanceReportSection,
+  FinancialReportRow,
+  Money,
+  PaymentInfo,
+  ProductEarnings,
+  ReportFooter,
+} from "../types.js";
+
+type FinanceReportField = Exclude<keyof FinancialReportRow, "extra">;
 
 /**
- * Column indices for the Financial Report TSV.
+ * Column names in the Financial Report TSV header, with known variants.
+ * Columns are matched by name (ignoring case, spaces and punctuation), so added or reordered columns don't matter.
  */
-const COLUMNS = {
-  START_DATE: 0,
-  END_DATE: 1,
-  UPC: 2,
-  ISRC_ISBN: 3,
-  VENDOR_IDENTIFIER: 4,
-  QUANTITY: 5,
-  PARTNER_SHARE: 6,
-  EXTENDED_PARTNER_SHARE: 7,
-  PARTNER_SHARE_CURRENCY: 8,
-  SALE_OR_RETURN: 9,
-  APPLE_IDENTIFIER: 10,
-  ARTIST_SHOW_DEVELOPER: 11,
-  TITLE: 12,
-  LABEL_STUDIO_NETWORK: 13,
-  GRID: 14,
-  PRODUCT_TYPE_IDENTIFIER: 15,
-  ISAN_OTHER_IDENTIFIER: 16,
-  COUNTRY_OF_SALE: 17,
-  PRE_ORDER_FLAG: 18,
-  PROMO_CODE: 19,
-  CUSTOMER_PRICE: 20,
-  CUSTOMER_CURRENCY: 21,
+const COLUMN_NAMES: ColumnNames<FinanceReportField> = {
+  startDate: ["Start Date"],
+  endDate: ["End Date"],
+  upc: ["UPC"],
+  isrcIsbn: ["ISRC/ISBN", "ISRC"],
+  vendorIdentifier: ["Vendor Identifier", "SKU"],
+  quantity: ["Quantity", "Units"],
+  partnerShare: ["Partner Share"],
+  extendedPartnerShare: ["Extended Partner Share"],
+  partnerShareCurrency: ["Partner Share Currency", "Currency of Proceeds"],
+  saleOrReturn: ["Sales or Return", "Sale or Return"],
+  appleIdentifier: ["Apple Identifier", "Apple ID"],
+  artistShowDeveloper: ["Artist/Show/Developer/Author", "Artist/Show/Developer", "Developer"],
+  title: ["Title"],
+  labelStudioNetwork: ["Label/Studio/Network/Developer/Publisher", "Label/Studio/Network"],
+  grid: ["Grid"],
+  productTypeIdentifier: ["Product Type Identifier"],
+  isanOtherIdentifier: ["ISAN/Other Identifier", "ISAN"],
+  countryOfSale: ["Country Of Sale", "Country Code"],
+  preOrderFlag: ["Pre-order Flag", "Preorder"],
+  promoCode: ["Promo Code"],
+  customerPrice: ["Customer Price"],
+  customerCurrency: ["Customer Currency"],
 };
 
+/**
+ * Columns every Financial Report must have.
+ */
+const REQUIRED_COLUMNS: FinanceReportField[] = [
+  "startDate",
+  "endDate",
+  "vendorIdentifier",
+  "quantity",
+  "extendedPartnerShare",
+  "partnerShareCurrency",
+  "appleIdentifier",
+  "productTypeIdentifier",
+];
+
 /**
  * Parses a single row from the Financial Report TSV.
+ * Returns null for records that are too short to hold every required column.
  */
-function parseRow(columns: string[]): FinancialReportRow | null {
-  if (columns.length < 12) {
+function parseRow(record: string[], columnMap: ColumnMap<FinanceReportField>): FinancialReportRow | null {
+  if (record.length < columnMap.minColumns) {
     return null;
   }
   
-  const quantity = parseInt(columns[COLUMNS.QUANTITY], 10) || 0;
-  const partnerShare = parseFloat(columns[COLUMNS.PARTNER_SHARE]) || 0;
-  const extendedPartnerShare = parseFloat(columns[COLUMNS.EXTENDED_PARTNER_SHARE]) || 0;
-  const customerPrice = parseFloat(columns[COLUMNS.CUSTOMER_PRICE]) || 0;
+  const field = (key: FinanceReportField): string => getField(record, columnMap, key);
+  
+  const quantity = parseInt(field("quantity"), 10) || 0;
+  const proceedsCurrency = field("partnerShareCurrency") || "USD";
+  const customerCurrency = field("customerCurrency") || proceedsCurrency;
+
+  // Amounts are kept in exact minor units so sums match Apple's totals to the cent
+  const partnerShare = parseMoney(field("partnerShare"), proceedsCurrency);
+  const extendedPartnerShare = parseMoney(field("extendedPartnerShare"), proceedsCurrency);
+  const customerPrice = parseMoney(field("customerPrice"), customerCurrency);
   
   return {
-    startDate: columns[COLUMNS.START_DATE] || "",
-    endDate: columns[COLUMNS.END_DATE] || "",
-    upc: columns[COLUMNS.UPC] || "",
-    isrcIsbn: columns[COLUMNS.ISRC_ISBN] || "",
-    vendorIdentifier: columns[COLUMNS.VENDOR_IDENTIFIER] || "",
+    startDate: field("startDate"),
+    endDate: field("endDate"),
+    upc: field("upc"),
+    isrcIsbn: field("isrcIsbn"),
+    vendorIdentifier: field("vendorIdentifier"),
     quantity,
     partnerShare,
     extendedPartnerShare,
-    partnerShareCurrency: columns[COLUMNS.PARTNER_SHARE_CURRENCY] || "",
-    saleOrReturn: columns[COLUMNS.SALE_OR_RETURN] || "",
-    appleIdentifier: columns[COLUMNS.APPLE_IDENTIFIER] || "",
-    artistShowDeveloper: columns[COLUMNS.ARTIST_SHOW_DEVELOPER] || "",
-    title: columns[COLUMNS.TITLE] || "",
-    labelStudioNetwork: columns[COLUMNS.LABEL_STUDIO_NETWORK] || "",
-    grid: columns[COLUMNS.GRID] || "",
-    productTypeIdentifier: columns[COLUMNS.PRODUCT_TYPE_IDENTIFIER] || "",
-    isanOtherIdentifier: columns[COLUMNS.ISAN_OTHER_IDENTIFIER] || "",
-    countryOfSale: columns[COLUMNS.COUNTRY_OF_SALE] || "",
-    preOrderFlag: columns[COLUMNS.PRE_ORDER_FLAG] || "",
-    promoCode: columns[COLUMNS.PROMO_CODE] || "",
+    partnerShareCurrency: field("partnerShareCurrency"),
+    saleOrReturn: field("saleOrReturn"),
+    appleIdentifier: field("appleIdentifier"),
+    artistShowDeveloper: field("artistShowDeveloper"),
+    title: field("title"),
+    labelStudioNetwork: field("labelStudioNetwork"),
+    grid: field("grid"),
+    productTypeIdentifier: field("productTypeIdentifier"),
+    isanOtherIdentifier: field("isanOtherIdentifier"),
+    countryOfSale: field("countryOfSale"),
+    preOrderFlag: field("preOrderFlag"),
+    promoCode: field("promoCode"),
     customerPrice,
-    customerCurrency: columns[COLUMNS.CUSTOMER_CURRENCY] || "",
+    customerCurrency: field("customerCurrency"),
+    extra: getExtraFields(record, columnMap),
   };
 }
 
 /**
- * Parses the Financial Report TSV content into an array of FinancialReportRow objects.
+ * Footer labels and the ReportFooter field each one fills.
  */
-export function parseFinanceReport(tsvContent: string): FinancialReportRow[] {
-  const lines = tsvContent.trim().split("\n");
-  
-  if (lines.length <= 1) {
-    return [];
+const FOOTER_FIELDS: Record<string, "totalRows" | "totalAmount" | "totalUnits"> = {
+  Total_Rows: "totalRows",
+  Total_Amount: "totalAmount",
+  Total_Units: "totalUnits",
+};
+
+/**
+ * Parses the Financial Report TSV content into sections of data rows and their footers.
+ * Columns are mapped from the header row; a repeated header starts a new section (and may
+ * order its columns differently). A section ends with its Total_Rows / Total_Amount /
+ * Total_Units lines, which are never treated as data rows.
+ *
+ * Throws ReportFormatError when the header lacks a required column.
+ */
+export function parseFinanceReportSections(tsvContent: string): FinanceReportSection[] {
+  const records = parseTsv(tsvContent.trim()).filter((record) => !isBlankRecord(record));
+  const sections: FinanceReportSection[] = [];
+  let section: FinanceReportSection = { rows: [], footer: null };
+
+  if (records.length === 0) {
+    return sections;
   }
-  
-  const rows: FinancialReportRow[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) continue;
-    
-    const columns = line.split("\t");
-    const row = parseRow(columns);
-    
+
+  let columnMap = mapColumns(records[0], COLUMN_NAMES, REQUIRED_COLUMNS, "financial report");
+
+  const endSection = (): void => {
+    if (section.rows.length > 0 || section.footer) {
+      sections.push(section);
+    }
+    section = { rows: [], footer: null };
+  };
+
+  for (const record of records.slice(1)) {
+    const footerField = FOOTER_FIELDS[record[0].trim()];
+    if (footerField) {
+      section.footer ??= { currency: null, totalRows: null, totalAmount: null, totalUnits: null };
+      parseFooterLine(section.footer, footerField, record);
+      continue;
+    }
+
+    // Data after a footer, or a repeated header, belongs to the next section
+    const isHeader = isHeaderRecord(record, COLUMN_NAMES, REQUIRED_COLUMNS);
+    if (section.footer || isHeader) {
+      endSection();
+    }
+    if (isHeader) {
+      columnMap = mapColumns(record, COLUMN_NAMES, REQUIRED_COLUMNS, "financial report");
+      continue;
+    }
+
+    const row = parseRow(record, columnMap);
+
     if (row) {
-      rows.push(row);
+      section.rows.push(row);
     }
   }
-  
-  return rows;
+
+  endSection();
+  return sections;
+}
+
+/**
+ * Reads one footer line ("Total_Amount\t1234.56", optionally followed by a currency).
+ */
+function parseFooterLine(
+  footer: ReportFooter,
+  field: "totalRows" | "totalAmount" | "totalUnits",
+  columns: string[]
+): void {
+  const value = (columns[1] ?? "").trim();
+  const currency = (columns[2] ?? "").trim();
+
+  if (/^[A-Z]{3}$/.test(currency)) {
+    footer.currency = currency;
+  }
+
+  if (field === "totalAmount") {
+    footer.totalAmount = value || null;
+  } else {
+    const count = parseInt(value, 10);
+    footer[field] = isNaN(count) ? null : count;
+  }
+}
+
+/**
+ * Parses the Financial Report TSV content into an array of FinancialReportRow objects.
+ */
+export function parseFinanceReport(tsvContent: string): FinancialReportRow[] {
+  return parseFinanceReportSections(tsvContent).flatMap((section) => section.rows);
+}
+
+/**
+ * Checks whether a row is a return (refund) rather than a sale.
+ * Apple marks returns with "R" and reports them with a negative quantity.
+ */
+export function isReturnRow(row: FinancialReportRow): boolean {
+  return row.saleOrReturn === "R" || row.quantity < 0;
+}
+
+/**
+ * Checks whether a row counts towards earnings: it has proceeds and identifies a product.
+ * Views that read rows directly use this so their units match the product totals.
+ */
+export function isEarningsRow(row: FinancialReportRow): boolean {
+  return row.extendedPartnerShare.minorUnits !== 0 && Boolean(row.vendorIdentifier || row.appleIdentifier);
 }
 
 /**
  * Aggregates financial report rows by unique product.
  * Uses vendor identifier (SKU) as the unique key since it's unique per product,
  * even if different apps have IAPs with the same display name.
+ *
+ * Proceeds are net of returns; returns are also tracked separately as refunds.
  */
 export function aggregateByProduct(rows: FinancialReportRow[]): ProductEarnings[] {
   // Group by vendor identifier (SKU) which is unique per product
   const productMap = new Map<string, ProductEarnings>();
   
   for (const row of rows) {
-    if (row.extendedPartnerShare === 0) continue;
+    if (!isEarningsRow(row)) continue;
     
     // Use vendor identifier as the unique key (it's unique per product)
     const productKey = row.vendorIdentifier || row.appleIdentifier;
-    if (!productKey) continue;
     
     let product = productMap.get(productKey);
     
@@ -121,19 +248,43 @@ export function aggregateByProduct(rows: FinancialReportRow[]): ProductEarnings[
         isIAP: row.productTypeIdentifier.startsWith("IA"),
         proceedsByCurrency: {},
         totalProceeds: 0,
+        units: 0,
+        refundsByCurrency: {},
+        totalRefunds: 0,
+        refundUnits: 0,
+        unconvertedCurrencies: [],
       };
       productMap.set(productKey, product);
     }
     
     // Aggregate proceeds by currency
-    const currency = row.partnerShareCurrency || "USD";
-    const currentProceeds = product.proceedsByCurrency[currency] || 0;
-    product.proceedsByCurrency[currency] = currentProceeds + row.extendedPartnerShare;
+    const currency = row.extendedPartnerShare.currency;
+    const currentProceeds = product.proceedsByCurrency[currency] ?? zeroMoney(currency);
+    product.proceedsByCurrency[currency] = addMoney(currentProceeds, row.extendedPartnerShare);
+    
+    // Returns have negative quantities, so this nets them out
+    product.units += row.quantity;
+    
+    // Track returns separately (as positive amounts)
+    if (isReturnRow(row)) {
+      const currentRefunds = product.refundsByCurrency[currency] ?? zeroMoney(currency);
+      const refund: Money = { minorUnits: Math.abs(row.extendedPartnerShare.minorUnits), currency };
+      product.refundsByCurrency[currency] = addMoney(currentRefunds, refund);
+      product.refundUnits += Math.abs(row.quantity);
+    }
   }
   
   return Array.from(productMap.values());
 }
 
+/**
+ * Calculates average proceeds per unit (in target currency).
+ * Returns null when no units were sold.
+ */
+export function getAverageProceedsPerUnit(proceeds: number, units: number): number | null {
+  return units > 0 ? proceeds / units : null;
+}
+
 /**
  * Gets all unique currencies from the products.
  */
@@ -149,24 +300,35 @@ export function getUniqueCurrencies(products: ProductEarnings[]): string[] {
   return Array.from(currencies);
 }
 
+/**
+ * Converts amounts in several currencies to the target currency and sums them.
+ * Each currency's exact subtotal is converted once; the result is not rounded.
+ */
+function convertAmounts(amounts: Record<string, Money>, exchangeRates: Map<string, number>): number {
+  let total = 0;
+
+  for (const amount of Object.values(amounts)) {
+    total += convertMoney(amount, exchangeRates.get(amount.currency) || 1);
+  }
+
+  return total;
+}
+
 /**
  * Converts all products to target currency.
  */
 export function convertProducts(
   products: ProductEarnings[],
-  exchangeRates: Map<string, number>
+  exchangeRates: Map<string, number>,
+  unconvertedCurrencies: string[] = []
 ): ProductEarnings[] {
   return products.map((product) => {
-    let total = 0;
-    
-    for (const [currency, amount] of Object.entries(product.proceedsByCurrency)) {
-      const rate = exchangeRates.get(currency) || 1;
-      total += amount * rate;
-    }
-    
     return {
       ...product,
-      totalProceeds: total,
+      totalProceeds: convertAmounts(product.proceedsByCurrency, exchangeRates),
+      totalRefunds: convertAmounts(product.refundsByCurrency, exchangeRates),
+      unconvertedCurrencies: Object.keys({ ...product.proceedsByCurrency, ...product.refundsByCurrency })
+        .filter((currency) => unconvertedCurrencies.includes(currency)),
     };
   });
 }
@@ -196,11 +358,6 @@ export function parsePaymentInfo(
     return null;
   }
 
-  const lines = tsvContent.trim().split("\n");
-  if (lines.length === 0) {
-    return null;
-  }
-
   // Currency is not used since we display in target currency
   const currency = "USD";
   
@@ -219,56 +376,41 @@ export function parsePaymentInfo(
 
   // Parse the report to extract:
   // 1. Fiscal period dates from the first data row
-  // 2. Total_Amount from the summary footer
+  // 2. Total_Amount from the summary footer (only meaningful when there is a single one)
   
-  let totalAmount: number | null = null;
+  const sections = parseFinanceReportSections(tsvContent);
+  const footers = sections
+    .map((section) => section.footer)
+    .filter((footer): footer is ReportFooter => footer !== null && footer.totalAmount !== null);
   
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) continue;
-    
-    const columns = trimmedLine.split("\t");
-    
-    // Look for Total_Amount in summary footer
-    if (columns[0] === "Total_Amount" && columns.length >= 2) {
-      totalAmount = parseFloat(columns[1]);
-      if (!isNaN(totalAmount)) {
-        paymentInfo.totalOwed = totalAmount;
-      }
-      continue;
-    }
-    
-    // Extract fiscal period from first data row (skip header)
-    // Data rows have dates in MM/DD/YYYY format in columns 0 and 1
-    if (!paymentInfo.fiscalPeriodStart && columns.length >= 2) {
-      const datePattern = /^(\d{2})\/(\d{2})\/(\d{4})$/;
-      if (datePattern.test(columns[0]) && datePattern.test(columns[1])) {
-        paymentInfo.fiscalPeriodStart = columns[0];
-        paymentInfo.fiscalPeriodEnd = columns[1];
-      }
+  if (footers.length === 1) {
+    const totalAmount = parseFloat(footers[0].totalAmount!);
+    if (!isNaN(totalAmount)) {
+      paymentInfo.totalOwed = totalAmount;
     }
   }
   
+  // Extract fiscal period from the first data row with dates in MM/DD/YYYY format
+  const datedRow = sections
+    .flatMap((section) => section.rows)
+    .find((row) => parseReportDate(row.startDate) && parseReportDate(row.endDate));
+  
+  if (datedRow) {
+    paymentInfo.fiscalPeriodStart = datedRow.startDate;
+    paymentInfo.fiscalPeriodEnd = datedRow.endDate;
+  }
+  
   // Determine fiscal period end date
   let periodEndDate: Date | null = null;
   
   if (fiscalPeriodEndDate) {
     periodEndDate = fiscalPeriodEndDate;
   } else if (paymentInfo.fiscalPeriodEnd) {
-    const parts = paymentInfo.fiscalPeriodEnd.split("/");
-    if (parts.length === 3) {
-      periodEndDate = new Date(
-        parseInt(parts[2]),
-        parseInt(parts[0]) - 1,
-        parseInt(parts[1])
-      );
-    }
+    periodEndDate = parseReportDate(paymentInfo.fiscalPeriodEnd);
   }
   
-  // Calculate estimated payment date (Apple pays ~33 days after fiscal month end)
   if (periodEndDate) {
-    const estimatedPaymentDate = new Date(periodEndDate);
-    estimatedPaymentDate.setDate(estimatedPaymentDate.getDate() + 33);
+    const estimatedPaymentDate = estimatePaymentDate(periodEndDate);
     
     paymentInfo.estimatedPaymentDate = formatDateForDisplay(estimatedPaymentDate);
     
@@ -290,10 +432,31 @@ export function parsePaymentInfo(
   return null;
 }
 
+/**
+ * Parses a report date in MM/DD/YYYY format.
+ */
+export function parseReportDate(value: string): Date | null {
+  const match = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return new Date(parseInt(match[3]), parseInt(match[1]) - 1, parseInt(match[2]));
+}
+
+/**
+ * Estimates the payment date for a fiscal period.
+ * Apple pays ~33 days after fiscal month end.
+ */
+export function estimatePaymentDate(fiscalPeriodEnd: Date): Date {
+  const paymentDate = new Date(fiscalPeriodEnd);
+  paymentDate.setDate(paymentDate.getDate() + 33);
+  return paymentDate;
+}
+
 /**
  * Formats a date for display (e.g., "Nov 1, 2025")
  */
-function formatDateForDisplay(date: Date): string {
+export function formatDateForDisplay(date: Date): string {
   const months = [
     "Jan", "Feb", "Mar", "Apr", "May", "Jun",
     "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"
@@ -307,19 +470,18 @@ function formatDateForDisplay(date: Date): string {
  * 
  * @param rows - Parsed financial report rows
  * @param exchangeRates - Exchange rates map (currency -> rate to target currency)
- * @returns Total proceeds in target currency
+ * @returns Total proceeds in target currency (not rounded)
  */
 export function calculateTotalProceeds(
   rows: FinancialReportRow[],
   exchangeRates: Map<string, number>
 ): number {
-  let total = 0;
+  const proceedsByCurrency: Record<string, Money> = {};
   
   for (const row of rows) {
-    const currency = row.partnerShareCurrency || "USD";
-    const rate = exchangeRates.get(currency) || 1;
-    total += row.extendedPartnerShare * rate;
+    const { currency } = row.extendedPartnerShare;
+    proceedsByCurrency[currency] = addMoney(proceedsByCurrency[currency] ?? zeroMoney(currency), row.extendedPartnerShare);
   }
   
-  return total;
+  return convertAmounts(proceedsByCurrency, exchangeRates);
 }
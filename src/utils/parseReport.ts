@@ -1,104 +1,127 @@
 import type { SalesReportRow, AppEarnings } from "../types.js";
+import {
+  getExtraFields,
+  getField,
+  isBlankRecord,
+  mapColumns,
+  parseTsv,
+  type ColumnMap,
+  type ColumnNames,
+} from "./tsv.js";
+
+type SalesReportField = Exclude<keyof SalesReportRow, "extra">;
 
 /**
- * Column indices for the Summary Sales Report TSV.
+ * Column names in the Summary Sales Report TSV header, with known variants.
  * These are based on Apple's documentation for the Summary Sales Report format.
  */
-const COLUMNS = {
-  PROVIDER: 0,
-  PROVIDER_COUNTRY: 1,
-  SKU: 2,
-  DEVELOPER: 3,
-  TITLE: 4,
-  VERSION: 5,
-  PRODUCT_TYPE_IDENTIFIER: 6,
-  UNITS: 7,
-  DEVELOPER_PROCEEDS: 8,
-  BEGIN_DATE: 9,
-  END_DATE: 10,
-  CUSTOMER_CURRENCY: 11,
-  COUNTRY_CODE: 12,
-  CURRENCY_OF_PROCEEDS: 13,
-  APPLE_IDENTIFIER: 14,
-  CUSTOMER_PRICE: 15,
-  PROMO_CODE: 16,
-  PARENT_IDENTIFIER: 17,
-  SUBSCRIPTION: 18,
-  PERIOD: 19,
-  CATEGORY: 20,
-  CMB: 21,
-  DEVICE: 22,
-  SUPPORTED_PLATFORMS: 23,
-  PROCEEDS_REASON: 24,
-  PRESERVED_PRICING: 25,
-  CLIENT: 26,
-  ORDER_TYPE: 27,
+const COLUMN_NAMES: ColumnNames<SalesReportField> = {
+  provider: ["Provider"],
+  providerCountry: ["Provider Country"],
+  sku: ["SKU"],
+  developer: ["Developer"],
+  title: ["Title"],
+  version: ["Version"],
+  productTypeIdentifier: ["Product Type Identifier"],
+  units: ["Units", "Quantity"],
+  developerProceeds: ["Developer Proceeds", "Developer Proceeds (per item)"],
+  beginDate: ["Begin Date", "Start Date"],
+  endDate: ["End Date"],
+  customerCurrency: ["Customer Currency"],
+  countryCode: ["Country Code", "Country Of Sale"],
+  currencyOfProceeds: ["Currency of Proceeds", "Proceeds Currency"],
+  appleIdentifier: ["Apple Identifier", "Apple ID"],
+  customerPrice: ["Customer Price"],
+  promoCode: ["Promo Code"],
+  parentIdentifier: ["Parent Identifier"],
+  subscription: ["Subscription"],
+  period: ["Period"],
+  category: ["Category"],
+  cmb: ["CMB"],
+  device: ["Device"],
+  supportedPlatforms: ["Supported Platforms"],
+  proceedsReason: ["Proceeds Reason"],
+  preservedPricing: ["Preserved Pricing"],
+  client: ["Client"],
+  orderType: ["Order Type"],
 };
 
+/**
+ * Columns every Summary Sales Report must have.
+ */
+const REQUIRED_COLUMNS: SalesReportField[] = [
+  "sku",
+  "productTypeIdentifier",
+  "units",
+  "developerProceeds",
+  "currencyOfProceeds",
+  "appleIdentifier",
+];
+
 /**
  * Parses a single row from the TSV report.
  */
-function parseRow(columns: string[]): SalesReportRow | null {
+function parseRow(record: string[], columnMap: ColumnMap<SalesReportField>): SalesReportRow | null {
   // Skip rows that don't have enough columns
-  if (columns.length < 15) {
+  if (record.length < columnMap.minColumns) {
     return null;
   }
   
-  const units = parseFloat(columns[COLUMNS.UNITS]) || 0;
-  const developerProceeds = parseFloat(columns[COLUMNS.DEVELOPER_PROCEEDS]) || 0;
-  const customerPrice = parseFloat(columns[COLUMNS.CUSTOMER_PRICE]) || 0;
+  const field = (key: SalesReportField): string => getField(record, columnMap, key);
+  
+  const units = parseFloat(field("units")) || 0;
+  const developerProceeds = parseFloat(field("developerProceeds")) || 0;
+  const customerPrice = parseFloat(field("customerPrice")) || 0;
   
   return {
-    provider: columns[COLUMNS.PROVIDER] || "",
-    providerCountry: columns[COLUMNS.PROVIDER_COUNTRY] || "",
-    sku: columns[COLUMNS.SKU] || "",
-    developer: columns[COLUMNS.DEVELOPER] || "",
-    title: columns[COLUMNS.TITLE] || "",
-    version: columns[COLUMNS.VERSION] || "",
-    productTypeIdentifier: columns[COLUMNS.PRODUCT_TYPE_IDENTIFIER] || "",
+    provider: field("provider"),
+    providerCountry: field("providerCountry"),
+    sku: field("sku"),
+    developer: field("developer"),
+    title: field("title"),
+    version: field("version"),
+    productTypeIdentifier: field("productTypeIdentifier"),
     units,
     developerProceeds,
-    beginDate: columns[COLUMNS.BEGIN_DATE] || "",
-    endDate: columns[COLUMNS.END_DATE] || "",
-    customerCurrency: columns[COLUMNS.CUSTOMER_CURRENCY] || "",
-    countryCode: columns[COLUMNS.COUNTRY_CODE] || "",
-    currencyOfProceeds: columns[COLUMNS.CURRENCY_OF_PROCEEDS] || "",
-    appleIdentifier: columns[COLUMNS.APPLE_IDENTIFIER] || "",
+    beginDate: field("beginDate"),
+    endDate: field("endDate"),
+    customerCurrency: field("customerCurrency"),
+    countryCode: field("countryCode"),
+    currencyOfProceeds: field("currencyOfProceeds"),
+    appleIdentifier: field("appleIdentifier"),
     customerPrice,
-    promoCode: columns[COLUMNS.PROMO_CODE] || "",
-    parentIdentifier: columns[COLUMNS.PARENT_IDENTIFIER] || "",
-    subscription: columns[COLUMNS.SUBSCRIPTION] || "",
-    period: columns[COLUMNS.PERIOD] || "",
-    category: columns[COLUMNS.CATEGORY] || "",
-    cmb: columns[COLUMNS.CMB] || "",
-    device: columns[COLUMNS.DEVICE] || "",
-    supportedPlatforms: columns[COLUMNS.SUPPORTED_PLATFORMS] || "",
-    proceedsReason: columns[COLUMNS.PROCEEDS_REASON] || "",
-    preservedPricing: columns[COLUMNS.PRESERVED_PRICING] || "",
-    client: columns[COLUMNS.CLIENT] || "",
-    orderType: columns[COLUMNS.ORDER_TYPE] || "",
+    promoCode: field("promoCode"),
+    parentIdentifier: field("parentIdentifier"),
+    subscription: field("subscription"),
+    period: field("period"),
+    category: field("category"),
+    cmb: field("cmb"),
+    device: field("device"),
+    supportedPlatforms: field("supportedPlatforms"),
+    proceedsReason: field("proceedsReason"),
+    preservedPricing: field("preservedPricing"),
+    client: field("client"),
+    orderType: field("orderType"),
+    extra: getExtraFields(record, columnMap),
   };
 }
 
 /**
  * Parses the TSV report content into an array of SalesReportRow objects.
+ * Columns are mapped from the header row; throws ReportFormatError when a required column is missing.
  */
 export function parseReport(tsvContent: string): SalesReportRow[] {
-  const lines = tsvContent.trim().split("\n");
+  const records = parseTsv(tsvContent.trim()).filter((record) => !isBlankRecord(record));
   
-  // Skip header row
-  if (lines.length <= 1) {
+  if (records.length <= 1) {
     return [];
   }
   
+  const columnMap = mapColumns(records[0], COLUMN_NAMES, REQUIRED_COLUMNS, "sales report");
   const rows: SalesReportRow[] = [];
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) continue;
-    
-    const columns = line.split("\t");
-    const row = parseRow(columns);
+  for (const record of records.slice(1)) {
+    const row = parseRow(record, columnMap);
     
     if (row) {
       rows.push(row);
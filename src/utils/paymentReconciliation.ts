@@ -0,0 +1,106 @@
+import Table from "cli-table3";
+import { formatCurrencyAmount } from "../api/exchangeRates.js";
+import { formatDateForDisplay, parseReportDate } from "./parseFinanceReport.js";
+import { sumAmounts } from "./money.js";
+import type { PaymentDeposit, RegionSettlement } from "../types.js";
+
+/**
+ * Groups region payment summaries into deposits, one per bank currency.
+ * Regions without a bank currency haven't been paid and are left out.
+ */
+export function buildPaymentDeposits(settlements: RegionSettlement[]): PaymentDeposit[] {
+  const deposits = new Map<string, PaymentDeposit>();
+
+  for (const settlement of settlements) {
+    if (!settlement.bankCurrency) {
+      continue;
+    }
+
+    let deposit = deposits.get(settlement.bankCurrency);
+
+    if (!deposit) {
+      deposit = {
+        bankCurrency: settlement.bankCurrency,
+        paymentDate: null,
+        regions: [],
+        amount: 0,
+        isComplete: true,
+      };
+      deposits.set(settlement.bankCurrency, deposit);
+    }
+
+    deposit.regions.push(settlement);
+    deposit.paymentDate ??= settlement.paymentDate;
+
+    if (settlement.proceeds === null) {
+      deposit.isComplete = false;
+    }
+  }
+
+  for (const deposit of deposits.values()) {
+    const proceeds = deposit.regions
+      .map((region) => region.proceeds)
+      .filter((amount): amount is number => amount !== null);
+    deposit.amount = sumAmounts(proceeds, deposit.bankCurrency);
+    deposit.regions.sort((a, b) => (b.proceeds ?? 0) - (a.proceeds ?? 0));
+  }
+
+  return Array.from(deposits.values());
+}
+
+/**
+ * Formats a region amount, or "-" when the report doesn't include it.
+ */
+function formatRegionAmount(amount: number | null, currency: string): string {
+  return amount === null ? "-" : formatCurrencyAmount(amount, currency);
+}
+
+/**
+ * Displays a deposit and how each region's earnings add up to it.
+ * Region amounts are in the region currency; the last column is in the bank currency.
+ */
+export function displayPaymentReconciliation(deposit: PaymentDeposit): void {
+  const paymentDate = deposit.paymentDate ? parseReportDate(deposit.paymentDate) : null;
+  const dateLabel = paymentDate ? formatDateForDisplay(paymentDate) : deposit.paymentDate;
+
+  console.log(
+    `  Deposit: ${formatCurrencyAmount(deposit.amount, deposit.bankCurrency)}` +
+    `${dateLabel ? ` on ${dateLabel}` : ""}${deposit.isComplete ? "" : " (some regions missing the paid amount)"}`
+  );
+
+  const table = new Table({
+    head: [
+      "Region",
+      "Earned",
+      "Input Tax",
+      "Adjustments",
+      "Withholding Tax",
+      "Total Owed",
+      "Rate",
+      `Paid (${deposit.bankCurrency})`,
+    ],
+    colAligns: ["left", "right", "right", "right", "right", "right", "right", "right"],
+    style: { head: [], border: [], compact: true },
+  });
+
+  for (const region of deposit.regions) {
+    table.push([
+      `${region.regionCode} (${region.currency})`,
+      formatRegionAmount(region.earned, region.currency),
+      formatRegionAmount(region.inputTax, region.currency),
+      formatRegionAmount(region.adjustments, region.currency),
+      formatRegionAmount(region.withholdingTax, region.currency),
+      formatRegionAmount(region.totalOwed, region.currency),
+      region.exchangeRate !== null ? region.exchangeRate.toFixed(6) : "-",
+      formatRegionAmount(region.proceeds, deposit.bankCurrency),
+    ]);
+  }
+
+  table.push([
+    deposit.isComplete ? "DEPOSIT" : "DEPOSIT (incomplete)",
+    "", "", "", "", "", "",
+    formatCurrencyAmount(deposit.amount, deposit.bankCurrency),
+  ]);
+
+  console.log(table.toString());
+}
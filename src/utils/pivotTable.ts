@@ -0,0 +1,197 @@
+import Table from "cli-table3";
+import { formatCurrency } from "../api/exchangeRates.js";
+import { describeFxRateStrategy } from "./exchangeRateSource.js";
+import type { MonthEarnings } from "../types.js";
+
+/**
+ * A single pivot row: one amount per month plus its label.
+ */
+interface PivotRow {
+  label: string;
+  values: number[];
+}
+
+/**
+ * An app row together with the rows nested under it.
+ */
+interface PivotAppRow extends PivotRow {
+  appSales: number[];
+  children: Map<string, PivotRow>;
+}
+
+/**
+ * Sums a row's values.
+ */
+function rowTotal(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Formats a pivot cell, leaving empty months blank so gaps stand out.
+ */
+function formatCell(amount: number): string {
+  return amount === 0 ? "-" : formatCurrency(amount);
+}
+
+/**
+ * Builds pivot rows from grouped apps.
+ * Apps and IAPs are keyed by identifier so they line up across months.
+ */
+function buildAppRows(earnings: MonthEarnings[]): PivotAppRow[] {
+  const appRows = new Map<string, PivotAppRow>();
+  const monthCount = earnings.length;
+
+  earnings.forEach((monthEarnings, monthIndex) => {
+    for (const app of monthEarnings.apps ?? []) {
+      let appRow = appRows.get(app.appleIdentifier);
+
+      if (!appRow) {
+        appRow = {
+          label: app.title,
+          values: new Array(monthCount).fill(0),
+          appSales: new Array(monthCount).fill(0),
+          children: new Map(),
+        };
+        appRows.set(app.appleIdentifier, appRow);
+      }
+
+      appRow.values[monthIndex] += app.totalProceeds;
+      appRow.appSales[monthIndex] += app.appProceeds;
+
+      for (const iap of app.iaps) {
+        const iapKey = iap.sku || iap.appleIdentifier;
+        let iapRow = appRow.children.get(iapKey);
+
+        if (!iapRow) {
+          iapRow = { label: iap.title, values: new Array(monthCount).fill(0) };
+          appRow.children.set(iapKey, iapRow);
+        }
+
+        iapRow.values[monthIndex] += iap.totalProceeds;
+      }
+    }
+  });
+
+  return Array.from(appRows.values());
+}
+
+/**
+ * Builds pivot rows from ungrouped products (fallback when no mapping available).
+ */
+function buildProductRows(earnings: MonthEarnings[]): PivotRow[] {
+  const productRows = new Map<string, PivotRow>();
+  const monthCount = earnings.length;
+
+  earnings.forEach((monthEarnings, monthIndex) => {
+    for (const product of monthEarnings.products) {
+      const productKey = product.sku || product.appleIdentifier;
+      let productRow = productRows.get(productKey);
+
+      if (!productRow) {
+        const typeLabel = product.isIAP ? "[IAP]" : "[App]";
+        productRow = { label: `${product.title} ${typeLabel}`, values: new Array(monthCount).fill(0) };
+        productRows.set(productKey, productRow);
+      }
+
+      productRow.values[monthIndex] += product.totalProceeds;
+    }
+  });
+
+  return Array.from(productRows.values());
+}
+
+/**
+ * Truncates a row label so the first column stays narrow.
+ */
+function truncateLabel(label: string, maxLength: number): string {
+  return label.length > maxLength ? label.substring(0, maxLength - 3) + "..." : label;
+}
+
+/**
+ * Displays a multi-month pivot table: apps and IAPs as rows, months as columns,
+ * with a total per row and per month.
+ */
+export function displayPivotTable(earnings: MonthEarnings[]): void {
+  const first = earnings[0];
+  const last = earnings[earnings.length - 1];
+
+  if (!first) {
+    return;
+  }
+
+  const title = first === last
+    ? first.month.displayName
+    : `${first.month.displayName} - ${last.month.displayName}`;
+  console.log(`\n  Earnings for ${title}\n`);
+
+  const monthLabels = earnings.map(
+    ({ month }) => `${month.displayName.substring(0, 3)} ${month.year}`
+  );
+
+  const table = new Table({
+    head: ["", ...monthLabels, "Total"],
+    colAligns: ["left", ...monthLabels.map(() => "right" as const), "right"],
+    style: { head: [], border: [], compact: true },
+  });
+
+  const isGrouped = earnings.some((monthEarnings) => monthEarnings.apps !== null);
+
+  if (isGrouped) {
+    const appRows = buildAppRows(earnings);
+    appRows.sort((a, b) => rowTotal(b.values) - rowTotal(a.values));
+
+    for (const appRow of appRows) {
+      table.push([
+        truncateLabel(appRow.label, 32),
+        ...appRow.values.map(formatCell),
+        formatCurrency(rowTotal(appRow.values)),
+      ]);
+
+      const children = Array.from(appRow.children.values());
+      children.sort((a, b) => rowTotal(b.values) - rowTotal(a.values));
+
+      // Only show "(App Sales)" when the app also has IAPs, otherwise it repeats the app row
+      if (children.length > 0 && rowTotal(appRow.appSales) !== 0) {
+        children.unshift({ label: "(App Sales)", values: appRow.appSales });
+      }
+
+      children.forEach((child, index) => {
+        const branch = index === children.length - 1 ? "└ " : "├ ";
+        table.push([
+          `${branch}${truncateLabel(child.label, 28)}`,
+          ...child.values.map(formatCell),
+          formatCurrency(rowTotal(child.values)),
+        ]);
+      });
+    }
+  } else {
+    const productRows = buildProductRows(earnings);
+    productRows.sort((a, b) => rowTotal(b.values) - rowTotal(a.values));
+
+    for (const productRow of productRows) {
+      table.push([
+        truncateLabel(productRow.label, 40),
+        ...productRow.values.map(formatCell),
+        formatCurrency(rowTotal(productRow.values)),
+      ]);
+    }
+  }
+
+  // Column totals
+  const monthTotals = earnings.map((monthEarnings) => monthEarnings.totalProceeds);
+  const unconvertedCurrencies = [
+    ...new Set(earnings.flatMap((monthEarnings) => monthEarnings.unconvertedCurrencies)),
+  ];
+  table.push([
+    unconvertedCurrencies.length > 0 ? "TOTAL (incomplete)" : "TOTAL",
+    ...monthTotals.map(formatCell),
+    formatCurrency(rowTotal(monthTotals)),
+  ]);
+
+  console.log(table.toString());
+  console.log(`\n  Exchange Rates: ${describeFxRateStrategy(earnings[0].exchangeRateSource.strategy)}`);
+  if (unconvertedCurrencies.length > 0) {
+    console.log(`  Converted 1:1 (no exchange rate available): ${unconvertedCurrencies.join(", ")}`);
+  }
+  console.log("");
+}
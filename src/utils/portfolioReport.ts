@@ -0,0 +1,97 @@
+import Table from "cli-table3";
+import { formatCurrency } from "../api/exchangeRates.js";
+import type { ProductInfo } from "../api/appStore.js";
+import type { GroupingOverrides, MonthEarnings, PortfolioApp, PortfolioEarnings } from "../types.js";
+import { groupByParentApp } from "./productGrouping.js";
+
+/**
+ * Rolls apps up into the portfolios defined in the grouping overrides, across one or more months.
+ * Apps without a portfolio are collected in a group of their own (name null), listed last.
+ */
+export function aggregateByPortfolio(
+  earnings: MonthEarnings[],
+  overrides: GroupingOverrides,
+  productMapping: Map<string, ProductInfo> | null = null
+): PortfolioEarnings[] {
+  const apps = new Map<string, PortfolioApp>();
+
+  for (const monthEarnings of earnings) {
+    // Earnings are already grouped when a mapping was available; otherwise each product is its own app
+    const monthApps = monthEarnings.apps ??
+      groupByParentApp(monthEarnings.products, productMapping ?? new Map(), overrides);
+
+    for (const app of monthApps) {
+      const totals = apps.get(app.appleIdentifier) ??
+        { appleIdentifier: app.appleIdentifier, title: app.title, units: 0, totalProceeds: 0 };
+      totals.units += app.units;
+      totals.totalProceeds += app.totalProceeds;
+      apps.set(app.appleIdentifier, totals);
+    }
+  }
+
+  const portfolios = new Map<string | null, PortfolioEarnings>();
+  let totalProceeds = 0;
+
+  for (const app of apps.values()) {
+    const name = overrides.apps[app.appleIdentifier]?.portfolio ?? null;
+    const portfolio = portfolios.get(name) ?? { name, units: 0, totalProceeds: 0, share: null, apps: [] };
+
+    portfolio.units += app.units;
+    portfolio.totalProceeds += app.totalProceeds;
+    portfolio.apps.push(app);
+    portfolios.set(name, portfolio);
+    totalProceeds += app.totalProceeds;
+  }
+
+  for (const portfolio of portfolios.values()) {
+    portfolio.share = totalProceeds > 0 ? portfolio.totalProceeds / totalProceeds : null;
+    portfolio.apps.sort((a, b) => b.totalProceeds - a.totalProceeds);
+  }
+
+  return Array.from(portfolios.values()).sort((a, b) =>
+    a.name === null ? 1 : b.name === null ? -1 : b.totalProceeds - a.totalProceeds
+  );
+}
+
+/**
+ * Displays proceeds and units per portfolio, with the apps in each.
+ */
+export function displayPortfolioReport(portfolios: PortfolioEarnings[], title: string): void {
+  console.log(`\n  Earnings by Portfolio for ${title}\n`);
+
+  const table = new Table({
+    head: ["Portfolio / App", "Units", "Proceeds", "Share"],
+    colAligns: ["left", "right", "right", "right"],
+    style: { head: [], border: [], compact: true },
+  });
+
+  let totalUnits = 0;
+  let totalProceeds = 0;
+
+  for (const portfolio of portfolios) {
+    table.push([
+      portfolio.name ?? "(No portfolio)",
+      portfolio.units.toString(),
+      formatCurrency(portfolio.totalProceeds),
+      portfolio.share === null ? "-" : `${(portfolio.share * 100).toFixed(1)}%`,
+    ]);
+
+    portfolio.apps.forEach((app, index) => {
+      const branch = index === portfolio.apps.length - 1 ? "└ " : "├ ";
+      const appTitle = app.title.length > 32 ? app.title.substring(0, 29) + "..." : app.title;
+      table.push([`${branch}${appTitle}`, app.units.toString(), formatCurrency(app.totalProceeds), ""]);
+    });
+
+    totalUnits += portfolio.units;
+    totalProceeds += portfolio.totalProceeds;
+  }
+
+  table.push(["TOTAL", totalUnits.toString(), formatCurrency(totalProceeds), ""]);
+
+  console.log(table.toString());
+
+  if (portfolios.every((portfolio) => portfolio.name === null)) {
+    console.log("\n  No portfolios defined. Add \"portfolio\" to apps in overrides.json to group them.");
+  }
+  console.log("");
+}
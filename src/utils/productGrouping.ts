@@ -0,0 +1,153 @@
+import type { ProductInfo } from "../api/appStore.js";
+import { NO_GROUPING_OVERRIDES } from "../config/overrides.js";
+import type { ProductEarnings, AppWithIAPs, GroupingOverrides, ProductOverride } from "../types.js";
+
+/**
+ * Looks up a product in the mapping:
+ * 1. Try SKU (vendor identifier) - works for IAPs/subscriptions
+ * 2. Try Apple Identifier (numeric ID) - works for apps and as fallback
+ */
+export function findProductInfo(
+  product: Pick<ProductEarnings, "sku" | "appleIdentifier">,
+  mapping: Map<string, ProductInfo>
+): ProductInfo | undefined {
+  return mapping.get(product.sku) || mapping.get(product.appleIdentifier);
+}
+
+/**
+ * Looks up a product's override: by SKU first, then by Apple Identifier.
+ */
+export function findProductOverride(
+  product: Pick<ProductEarnings, "sku" | "appleIdentifier">,
+  overrides: GroupingOverrides
+): ProductOverride | undefined {
+  return overrides.products[product.sku] ?? overrides.products[product.appleIdentifier];
+}
+
+/**
+ * Gets the products missing from the mapping, which groupByParentApp shows as their own app.
+ * Products an override moves or merges into another app aren't missing.
+ */
+export function getUnmappedProducts(
+  products: ProductEarnings[],
+  mapping: Map<string, ProductInfo>,
+  overrides: GroupingOverrides = NO_GROUPING_OVERRIDES
+): ProductEarnings[] {
+  return products.filter((product) =>
+    !findProductInfo(product, mapping) &&
+    resolveParentApp(product, mapping, overrides).parentAppId === (product.appleIdentifier || product.sku)
+  );
+}
+
+/**
+ * Follows mergeInto overrides from an app to the app it finally rolls up into.
+ */
+function resolveMergedApp(appId: string, overrides: GroupingOverrides): string {
+  const visited = new Set<string>();
+
+  while (overrides.apps[appId]?.mergeInto && !visited.has(appId)) {
+    visited.add(appId);
+    appId = overrides.apps[appId].mergeInto!;
+  }
+
+  return appId;
+}
+
+/**
+ * Resolves the parent app of a product.
+ * Products missing from the mapping are treated as their own app.
+ *
+ * Overrides apply on top of the mapping: a product override moves the product to another
+ * app, mergeInto rolls an app into another one, and app titles replace the mapped names.
+ * A product moved to another app is shown as one of its products, even if it's an app itself.
+ */
+export function resolveParentApp(
+  product: Pick<ProductEarnings, "sku" | "appleIdentifier" | "title" | "isIAP">,
+  mapping: Map<string, ProductInfo>,
+  overrides: GroupingOverrides = NO_GROUPING_OVERRIDES
+): { parentAppId: string; parentAppName: string; isIAP: boolean } {
+  const info = findProductInfo(product, mapping);
+  const productOverride = findProductOverride(product, overrides);
+
+  // Fallback: use the product itself as the "app"
+  const mappedAppId = info?.parentAppId ?? (product.appleIdentifier || product.sku);
+  const mappedAppName = info?.parentAppName ?? productOverride?.title ?? product.title;
+
+  const parentAppId = resolveMergedApp(productOverride?.parentAppId ?? mappedAppId, overrides);
+  const isMoved = parentAppId !== mappedAppId;
+
+  return {
+    parentAppId,
+    parentAppName: overrides.apps[parentAppId]?.title ??
+      (isMoved ? mapping.get(parentAppId)?.parentAppName ?? parentAppId : mappedAppName),
+    isIAP: isMoved ? parentAppId !== product.appleIdentifier : (info?.isIAP ?? product.isIAP),
+  };
+}
+
+/**
+ * Groups products by their parent app using the product mapping and any overrides.
+ * Product titles from overrides replace the titles in the report.
+ */
+export function groupByParentApp(
+  products: ProductEarnings[],
+  mapping: Map<string, ProductInfo>,
+  overrides: GroupingOverrides = NO_GROUPING_OVERRIDES
+): AppWithIAPs[] {
+  const appMap = new Map<string, AppWithIAPs>();
+
+  for (const reportProduct of products) {
+    const { parentAppId, parentAppName, isIAP } = resolveParentApp(reportProduct, mapping, overrides);
+    const title = findProductOverride(reportProduct, overrides)?.title;
+    const product = title ? { ...reportProduct, title } : reportProduct;
+
+    // Get or create the app entry
+    let app = appMap.get(parentAppId);
+
+    if (!app) {
+      app = {
+        appleIdentifier: parentAppId,
+        title: parentAppName,
+        sku: "",
+        totalProceeds: 0,
+        appProceeds: 0,
+        units: 0,
+        appUnits: 0,
+        totalRefunds: 0,
+        appRefunds: 0,
+        unconvertedCurrencies: [],
+        appUnconvertedCurrencies: [],
+        iaps: [],
+      };
+      appMap.set(parentAppId, app);
+    }
+
+    // Add to the appropriate place
+    if (isIAP) {
+      app.iaps.push(product);
+    } else {
+      app.appProceeds += product.totalProceeds;
+      app.appUnits += product.units;
+      app.appRefunds += product.totalRefunds;
+      app.appUnconvertedCurrencies = mergeCurrencies(app.appUnconvertedCurrencies, product.unconvertedCurrencies);
+    }
+
+    app.totalProceeds += product.totalProceeds;
+    app.units += product.units;
+    app.totalRefunds += product.totalRefunds;
+    app.unconvertedCurrencies = mergeCurrencies(app.unconvertedCurrencies, product.unconvertedCurrencies);
+  }
+
+  // Sort IAPs within each app
+  for (const app of appMap.values()) {
+    app.iaps.sort((a, b) => b.totalProceeds - a.totalProceeds);
+  }
+
+  return Array.from(appMap.values());
+}
+
+/**
+ * Merges two currency lists without duplicates.
+ */
+function mergeCurrencies(a: string[], b: string[]): string[] {
+  return b.length === 0 ? a : [...new Set([...a, ...b])];
+}
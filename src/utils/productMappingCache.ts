@@ -11,39 +11,64 @@ function getMappingFilePath(): string {
   return join(getCacheDir(), "product-mapping.json");
 }
 
-// Cache expires after 7 days (product structure doesn't change often)
+// Each app's products expire after 7 days (product structure doesn't change often)
 const CACHE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
 
-interface CachedMapping {
+/**
+ * One app's products, as last fetched from App Store Connect.
+ */
+export interface CachedApp {
+  appName: string;
+  bundleId: string;                     // Empty for apps migrated from the old cache format
+  fetchedAt: number;                    // When its IAPs and subscriptions were fetched (ms)
+  products: Record<string, ProductInfo>; // By product ID and App Store Connect ID, including the app itself
+}
+
+/**
+ * The cached product mapping, kept per app so apps can be refreshed one at a time.
+ */
+export interface MappingCache {
+  version: 2;
+  appsFetchedAt: number;                // When the list of apps was fetched (ms)
+  apps: Record<string, CachedApp>;      // By App Store Connect app ID
+}
+
+// Cache files written before per-app timestamps
+interface LegacyCachedMapping {
   timestamp: number;
   data: Record<string, ProductInfo>;
 }
 
 /**
- * Checks if the cached product mapping is still valid.
+ * Converts an old whole-mapping cache into per-app entries sharing its timestamp.
  */
-export function isMappingCacheValid(): boolean {
-  const mappingFile = getMappingFilePath();
+function migrateLegacyCache(legacy: LegacyCachedMapping): MappingCache {
+  const apps: Record<string, CachedApp> = {};
 
-  if (!existsSync(mappingFile)) {
-    return false;
+  for (const [key, info] of Object.entries(legacy.data)) {
+    apps[info.parentAppId] ??= {
+      appName: info.parentAppName,
+      bundleId: "",
+      fetchedAt: legacy.timestamp,
+      products: {},
+    };
+    apps[info.parentAppId].products[key] = info;
   }
 
-  try {
-    const content = readFileSync(mappingFile, "utf-8");
-    const cached: CachedMapping = JSON.parse(content);
+  return { version: 2, appsFetchedAt: legacy.timestamp, apps };
+}
 
-    const age = Date.now() - cached.timestamp;
-    return age < CACHE_EXPIRY_MS;
-  } catch {
-    return false;
-  }
+/**
+ * Checks whether a timestamp is older than the cache expiry.
+ */
+export function isMappingExpired(fetchedAt: number): boolean {
+  return Date.now() - fetchedAt >= CACHE_EXPIRY_MS;
 }
 
 /**
- * Reads the cached product mapping.
+ * Reads the cached product mapping, whatever its age.
  */
-export function readMappingCache(): Map<string, ProductInfo> | null {
+export function readMappingCache(): MappingCache | null {
   const mappingFile = getMappingFilePath();
 
   if (!existsSync(mappingFile)) {
@@ -52,10 +77,9 @@ export function readMappingCache(): Map<string, ProductInfo> | null {
 
   try {
     const content = readFileSync(mappingFile, "utf-8");
-    const cached: CachedMapping = JSON.parse(content);
+    const cached: MappingCache | LegacyCachedMapping = JSON.parse(content);
 
-    // Convert object back to Map
-    return new Map(Object.entries(cached.data));
+    return "version" in cached ? cached : migrateLegacyCache(cached);
   } catch {
     return null;
   }
@@ -64,13 +88,22 @@ export function readMappingCache(): Map<string, ProductInfo> | null {
 /**
  * Writes the product mapping to cache.
  */
-export function writeMappingCache(mapping: Map<string, ProductInfo>): void {
+export function writeMappingCache(cache: MappingCache): void {
   ensureDir(getCacheDir());
+  writeFileSync(getMappingFilePath(), JSON.stringify(cache, null, 2), "utf-8");
+}
 
-  const cached: CachedMapping = {
-    timestamp: Date.now(),
-    data: Object.fromEntries(mapping),
-  };
+/**
+ * Flattens the cached apps into a single lookup by product ID and App Store Connect ID.
+ */
+export function toProductMapping(cache: MappingCache): Map<string, ProductInfo> {
+  const mapping = new Map<string, ProductInfo>();
+
+  for (const app of Object.values(cache.apps)) {
+    for (const [key, info] of Object.entries(app.products)) {
+      mapping.set(key, info);
+    }
+  }
 
-  writeFileSync(getMappingFilePath(), JSON.stringify(cached, null, 2), "utf-8");
+  return mapping;
 }
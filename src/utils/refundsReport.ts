@@ -0,0 +1,139 @@
+import Table from "cli-table3";
+import { formatCurrency } from "../api/exchangeRates.js";
+import type { ProductInfo } from "../api/appStore.js";
+import type { GroupingOverrides, MonthEarnings } from "../types.js";
+import { getProductKey } from "./comparison.js";
+import { findProductOverride, resolveParentApp } from "./productGrouping.js";
+import { NO_GROUPING_OVERRIDES } from "../config/overrides.js";
+
+/**
+ * Refund figures for a product or app (amounts in target currency).
+ */
+interface RefundStats {
+  title: string;
+  netProceeds: number;
+  refunds: number;     // Refunded proceeds (positive)
+  refundUnits: number; // Units returned (positive)
+}
+
+/**
+ * Refund figures for an app together with its products.
+ */
+interface AppRefundStats extends RefundStats {
+  products: Map<string, RefundStats>;
+}
+
+/**
+ * Adds one product's figures to running refund stats.
+ */
+function addStats(stats: RefundStats, netProceeds: number, refunds: number, refundUnits: number): void {
+  stats.netProceeds += netProceeds;
+  stats.refunds += refunds;
+  stats.refundUnits += refundUnits;
+}
+
+/**
+ * Aggregates refunds per product and app across one or more months.
+ * Products missing from the mapping are treated as their own app.
+ */
+function aggregateRefunds(
+  earnings: MonthEarnings[],
+  productMapping: Map<string, ProductInfo> | null,
+  overrides: GroupingOverrides
+): AppRefundStats[] {
+  const mapping = productMapping ?? new Map<string, ProductInfo>();
+  const apps = new Map<string, AppRefundStats>();
+
+  for (const monthEarnings of earnings) {
+    for (const product of monthEarnings.products) {
+      const { parentAppId, parentAppName, isIAP } = resolveParentApp(product, mapping, overrides);
+
+      let app = apps.get(parentAppId);
+      if (!app) {
+        app = { title: parentAppName, netProceeds: 0, refunds: 0, refundUnits: 0, products: new Map() };
+        apps.set(parentAppId, app);
+      }
+
+      const productKey = getProductKey(product);
+      let productStats = app.products.get(productKey);
+      if (!productStats) {
+        productStats = {
+          title: isIAP ? findProductOverride(product, overrides)?.title ?? product.title : "(App Sales)",
+          netProceeds: 0,
+          refunds: 0,
+          refundUnits: 0,
+        };
+        app.products.set(productKey, productStats);
+      }
+
+      addStats(productStats, product.totalProceeds, product.totalRefunds, product.refundUnits);
+      addStats(app, product.totalProceeds, product.totalRefunds, product.refundUnits);
+    }
+  }
+
+  return Array.from(apps.values()).sort((a, b) => b.refunds - a.refunds);
+}
+
+/**
+ * Formats the table cells for a set of refund stats.
+ * Gross sales are net proceeds plus what was refunded; the refund rate is the
+ * refunded share of gross sales.
+ */
+function formatStats(stats: RefundStats): string[] {
+  const grossSales = stats.netProceeds + stats.refunds;
+  const refundRate = grossSales !== 0 ? (stats.refunds / grossSales) * 100 : 0;
+
+  return [
+    formatCurrency(grossSales),
+    stats.refunds !== 0 ? formatCurrency(-stats.refunds) : "-",
+    stats.refundUnits.toString(),
+    `${refundRate.toFixed(1)}%`,
+    formatCurrency(stats.netProceeds),
+  ];
+}
+
+/**
+ * Displays gross sales, refunded amount, refund units and refund rate per app and product.
+ * Apps and products with the most refunds come first.
+ */
+export function displayRefundsReport(
+  earnings: MonthEarnings[],
+  productMapping: Map<string, ProductInfo> | null,
+  title: string,
+  overrides: GroupingOverrides = NO_GROUPING_OVERRIDES
+): void {
+  console.log(`\n  Refunds for ${title}\n`);
+
+  const apps = aggregateRefunds(earnings, productMapping, overrides);
+
+  const table = new Table({
+    head: ["", "Gross Sales", "Refunded", "Refund Units", "Refund Rate", "Net"],
+    colAligns: ["left", "right", "right", "right", "right", "right"],
+    style: { head: [], border: [], compact: true },
+  });
+
+  const total: RefundStats = { title: "TOTAL", netProceeds: 0, refunds: 0, refundUnits: 0 };
+
+  for (const app of apps) {
+    const appTitle = app.title.length > 32 ? app.title.substring(0, 29) + "..." : app.title;
+    table.push([appTitle, ...formatStats(app)]);
+
+    const products = Array.from(app.products.values()).sort((a, b) => b.refunds - a.refunds);
+
+    // A single "(App Sales)" row would only repeat the app row
+    if (products.length > 1 || products[0]?.title !== "(App Sales)") {
+      products.forEach((product, index) => {
+        const branch = index === products.length - 1 ? "└ " : "├ ";
+        const productTitle = product.title.length > 28 ? product.title.substring(0, 25) + "..." : product.title;
+        table.push([`${branch}${productTitle}`, ...formatStats(product)]);
+      });
+    }
+
+    addStats(total, app.netProceeds, app.refunds, app.refundUnits);
+  }
+
+  table.push(["TOTAL", ...formatStats(total)]);
+
+  console.log(table.toString());
+  console.log("");
+}
@@ -0,0 +1,262 @@
+import { formatDateForDisplay, parseFinanceReport, parseReportDate } from "./parseFinanceReport.js";
+import { sumAmounts } from "./money.js";
+import { parseTsv, ReportFormatError } from "./tsv.js";
+import type { ExchangeRateResult, PaymentInfo, RegionSettlement } from "../types.js";
+
+// Finance report regions settled in each proceeds currency.
+// USD proceeds come from the Americas (US), Latin America and the Caribbean (LL) and the rest of the world (WW).
+const REGION_CODES_BY_CURRENCY: Record<string, string[]> = {
+  USD: ["US", "LL", "WW"], CAD: ["CA"], MXN: ["MX"], BRL: ["BR"], CLP: ["CL"], COP: ["CO"],
+  PEN: ["PE"], EUR: ["EU"], GBP: ["GB"], CHF: ["CH"], NOK: ["NO"], SEK: ["SE"], DKK: ["DK"],
+  PLN: ["PL"], CZK: ["CZ"], HUF: ["HU"], BGN: ["BG"], RON: ["RO"], RUB: ["RU"], TRY: ["TR"],
+  KZT: ["KZ"], AUD: ["AU"], NZD: ["NZ"], JPY: ["JP"], CNY: ["CN"], HKD: ["HK"], TWD: ["TW"],
+  SGD: ["SG"], IDR: ["ID"], INR: ["IN"], KRW: ["KR"], MYR: ["MY"], PHP: ["PH"], THB: ["TH"],
+  VND: ["VN"], PKR: ["PK"], AED: ["AE"], SAR: ["SA"], ILS: ["IL"], QAR: ["QA"], EGP: ["EG"],
+  NGN: ["NG"], TZS: ["TZ"], ZAR: ["ZA"],
+};
+
+type SettlementField = Exclude<keyof RegionSettlement, "regionCode">;
+
+// Labels used in the payment header and summary, normalized (lowercase, letters only)
+const FIELD_LABELS: Record<string, SettlementField> = {
+  regioncurrency: "currency",
+  currency: "currency",
+  unitssold: "units",
+  units: "units",
+  earned: "earned",
+  pretaxsubtotal: "preTaxSubtotal",
+  inputtax: "inputTax",
+  adjustments: "adjustments",
+  adjustment: "adjustments",
+  withholdingtax: "withholdingTax",
+  totalowed: "totalOwed",
+  exchangerate: "exchangeRate",
+  proceeds: "proceeds",
+  amountpaid: "proceeds",
+  paymentamount: "proceeds",
+  bankaccountcurrency: "bankCurrency",
+  bankcurrency: "bankCurrency",
+  paymentcurrency: "bankCurrency",
+  paymentdate: "paymentDate",
+  paiddate: "paymentDate",
+};
+
+const TEXT_FIELDS: SettlementField[] = ["currency", "bankCurrency", "paymentDate"];
+
+/**
+ * Gets the finance report regions to fetch for the currencies in a consolidated report.
+ */
+export function getRegionCodes(currencies: string[]): string[] {
+  return [...new Set(currencies.flatMap((currency) => REGION_CODES_BY_CURRENCY[currency] ?? []))];
+}
+
+/**
+ * Normalizes a header label for lookup ("Withholding Tax:" -> "withholdingtax").
+ */
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+/**
+ * Parses an amount as printed in the summary ("1,234.56", "(12.00)", "-12.00").
+ */
+function parseAmount(value: string): number | null {
+  const trimmed = value.trim();
+  const isNegative = /^\(.*\)$/.test(trimmed);
+  const amount = parseFloat(trimmed.replace(/[(),\s]/g, ""));
+
+  if (isNaN(amount)) {
+    return null;
+  }
+  return isNegative ? -amount : amount;
+}
+
+/**
+ * Parses the payment header and summary of a region-specific finance report.
+ *
+ * Both layouts Apple uses are recognized:
+ * - label/value lines ("Exchange Rate\t1.0856")
+ * - a summary table: a header row of labels ("Region Currency\tEarned\t...\tExchange Rate")
+ *   followed by a row of values
+ *
+ * Returns null if the report has no payment summary.
+ */
+export function parseRegionSettlement(regionCode: string, tsvContent: string): RegionSettlement | null {
+  const settlement: RegionSettlement = {
+    regionCode,
+    currency: "",
+    units: null,
+    earned: null,
+    preTaxSubtotal: null,
+    inputTax: null,
+    adjustments: null,
+    withholdingTax: null,
+    totalOwed: null,
+    exchangeRate: null,
+    proceeds: null,
+    bankCurrency: null,
+    paymentDate: null,
+  };
+
+  const setField = (field: SettlementField, value: string): void => {
+    if (!value.trim()) {
+      return;
+    }
+    if (TEXT_FIELDS.includes(field)) {
+      (settlement[field] as string | null) = value.trim();
+    } else {
+      (settlement[field] as number | null) = parseAmount(value);
+    }
+  };
+
+  const lines = parseTsv(tsvContent);
+  let foundSummary = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const columns = lines[i];
+    const fields = columns.map((column) => FIELD_LABELS[normalizeLabel(column)]);
+
+    // Summary table: a row of labels including the amount owed or the rate, then a row of values
+    const isTableHeader = fields.filter(Boolean).length >= 3 &&
+      (fields.includes("totalOwed") || fields.includes("exchangeRate"));
+
+    if (isTableHeader && i + 1 < lines.length) {
+      const values = lines[i + 1];
+      fields.forEach((field, index) => {
+        if (field) setField(field, values[index] ?? "");
+      });
+      foundSummary = true;
+      i++;
+      continue;
+    }
+
+    // Label/value line
+    if (fields[0] && columns.length >= 2) {
+      setField(fields[0], columns[1]);
+      foundSummary = true;
+    }
+  }
+
+  if (!foundSummary) {
+    return null;
+  }
+
+  // Fall back to the proceeds currency of the report's sales rows, then to the region's currency
+  if (!settlement.currency) {
+    settlement.currency = getSalesCurrency(tsvContent) ??
+      Object.keys(REGION_CODES_BY_CURRENCY).find((currency) => REGION_CODES_BY_CURRENCY[currency].includes(regionCode)) ??
+      "";
+  }
+
+  // Derive the rate from the amounts when it isn't printed
+  if (settlement.exchangeRate === null && settlement.proceeds !== null && settlement.totalOwed) {
+    settlement.exchangeRate = settlement.proceeds / settlement.totalOwed;
+  }
+
+  return settlement.currency ? settlement : null;
+}
+
+/**
+ * Gets the proceeds currency of a region report's sales rows.
+ * Reports that only contain a payment summary have no sales header, so there is none.
+ */
+function getSalesCurrency(tsvContent: string): string | null {
+  try {
+    return parseFinanceReport(tsvContent)[0]?.partnerShareCurrency || null;
+  } catch (error) {
+    if (error instanceof ReportFormatError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Combines the rates of regions settled in the same currency and bank currency (e.g. US, LL and WW for USD).
+ * Rates are weighted by the amount owed in each region; without amounts, the first rate is used.
+ */
+function getCombinedSettlementRate(settlements: RegionSettlement[]): number {
+  const owed = settlements.map((settlement) => settlement.totalOwed);
+  const totalOwed = owed.reduce<number>((sum, amount) => sum + (amount ?? 0), 0);
+
+  if (owed.some((amount) => amount === null) || totalOwed === 0) {
+    return settlements[0].exchangeRate!;
+  }
+
+  return settlements.reduce((sum, settlement) => sum + settlement.exchangeRate! * settlement.totalOwed!, 0) / totalOwed;
+}
+
+/**
+ * Combines Apple's settlement rates with provider rates.
+ * Settlement rates convert into the bank currency, so the provider's bank-to-target rate is applied on top.
+ * Summaries without a rate or bank currency are ignored.
+ * Currencies without a settlement rate keep the provider rate.
+ */
+export function applySettlementRates(
+  settlements: RegionSettlement[],
+  providerRates: ExchangeRateResult,
+  targetCurrency: string
+): ExchangeRateResult & { settlementCurrencies: string[] } {
+  const rates = new Map(providerRates.rates);
+  const failedCurrencies = [...providerRates.failedCurrencies];
+  const settlementCurrencies: string[] = [];
+
+  for (const settlement of settlements) {
+    const { bankCurrency } = settlement;
+    if (settlement.exchangeRate === null || !bankCurrency || settlementCurrencies.includes(settlement.currency)) {
+      continue;
+    }
+
+    const bankRate = bankCurrency === targetCurrency ? 1 : rates.get(bankCurrency);
+    if (bankRate === undefined || failedCurrencies.includes(bankCurrency)) {
+      // Without a rate for the bank currency the settlement rate can't be used either
+      if (!rates.has(settlement.currency) && !failedCurrencies.includes(settlement.currency)) {
+        rates.set(settlement.currency, 1);
+        failedCurrencies.push(settlement.currency);
+      }
+      continue;
+    }
+
+    const sameCurrency = settlements.filter((other) =>
+      other.currency === settlement.currency && other.bankCurrency === bankCurrency && other.exchangeRate !== null
+    );
+    rates.set(settlement.currency, getCombinedSettlementRate(sameCurrency) * bankRate);
+    settlementCurrencies.push(settlement.currency);
+
+    const failedIndex = failedCurrencies.indexOf(settlement.currency);
+    if (failedIndex !== -1) failedCurrencies.splice(failedIndex, 1);
+  }
+
+  return { rates, failedCurrencies, settlementCurrencies };
+}
+
+/**
+ * Fills in the actual payment from the region summaries.
+ * Only applies when every region was paid into the same bank currency.
+ */
+export function applySettlementsToPaymentInfo(
+  paymentInfo: PaymentInfo | null,
+  settlements: RegionSettlement[]
+): PaymentInfo | null {
+  const bankCurrencies = new Set(settlements.map((settlement) => settlement.bankCurrency));
+  if (!paymentInfo || settlements.length === 0 || bankCurrencies.size !== 1 || bankCurrencies.has(null)) {
+    return paymentInfo;
+  }
+
+  const paymentCurrency = settlements[0].bankCurrency!;
+  const proceeds = settlements.map((settlement) => settlement.proceeds);
+  const printedDate = settlements.find((settlement) => settlement.paymentDate)?.paymentDate ?? null;
+  const parsedDate = printedDate ? parseReportDate(printedDate) : null;
+  const paymentDate = parsedDate ? formatDateForDisplay(parsedDate) : printedDate;
+
+  return {
+    ...paymentInfo,
+    paymentCurrency,
+    paymentAmount: proceeds.every((amount): amount is number => amount !== null)
+      ? sumAmounts(proceeds, paymentCurrency)
+      : paymentInfo.paymentAmount,
+    exchangeRate: settlements.length === 1 ? settlements[0].exchangeRate : paymentInfo.exchangeRate,
+    paymentDate: paymentDate ?? paymentInfo.paymentDate,
+    isPending: paymentDate ? false : paymentInfo.isPending,
+  };
+}
@@ -0,0 +1,89 @@
+import { formatMoneyDecimal, getCurrencyExponent, parseMoney } from "./money.js";
+import { ReportParseError } from "./errors.js";
+import type { FinanceReportSection, FinancialReportRow, Money } from "../types.js";
+
+/**
+ * Error class for when a report doesn't add up to its own footer under --strict.
+ */
+export class ReportTotalsMismatchError extends ReportParseError {
+  constructor(reportName: string, problems: string[]) {
+    super(
+      `The ${reportName} report doesn't match its own totals:\n` +
+      problems.map((problem) => `  - ${problem}`).join("\n"),
+      "Re-download it with --no-cache. If that doesn't help, the report format may have changed."
+    );
+    this.name = "ReportTotalsMismatchError";
+  }
+}
+
+/**
+ * Checks parsed report sections against Apple's footer totals (Total_Rows, Total_Amount, Total_Units).
+ * Returns a description of every mismatch; an empty list means the report adds up.
+ */
+export function checkReportTotals(sections: FinanceReportSection[]): string[] {
+  const problems: string[] = [];
+
+  for (const { rows, footer } of sections) {
+    const currencies = [...new Set(rows.map((row) => row.extendedPartnerShare.currency))];
+    const currency = footer?.currency ?? (currencies.length === 1 ? currencies[0] : null);
+    const label = currency ?? "All currencies";
+
+    if (!footer) {
+      problems.push(`${label}: ${rows.length} rows without a Total_Rows/Total_Amount/Total_Units footer (the download may be truncated)`);
+      continue;
+    }
+
+    if (footer.totalRows !== null && footer.totalRows !== rows.length) {
+      problems.push(`${label}: Total_Rows is ${footer.totalRows} but ${rows.length} rows were read`);
+    }
+
+    const units = rows.reduce((sum, row) => sum + row.quantity, 0);
+    if (footer.totalUnits !== null && footer.totalUnits !== units) {
+      problems.push(`${label}: Total_Units is ${footer.totalUnits} but the rows add up to ${units}`);
+    }
+
+    if (footer.totalAmount !== null) {
+      const amountRows = footer.currency
+        ? rows.filter((row) => row.extendedPartnerShare.currency === footer.currency)
+        : rows;
+      const { matches, actual } = compareAmounts(footer.totalAmount, amountRows, currency);
+
+      if (!matches) {
+        problems.push(`${label}: Total_Amount is ${footer.totalAmount} but the rows add up to ${actual}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Sums extendedPartnerShare exactly and compares it with the footer amount.
+ * When a footer covers several currencies, Apple adds the printed amounts as plain numbers,
+ * so they're compared at the largest number of decimals among them.
+ */
+function compareAmounts(
+  totalAmount: string,
+  rows: FinancialReportRow[],
+  currency: string | null
+): { matches: boolean; actual: string } {
+  const amounts = rows.map((row) => row.extendedPartnerShare);
+  const scaleCurrency = currency ?? amounts.reduce(
+    (widest, amount) => getCurrencyExponent(amount.currency) > getCurrencyExponent(widest) ? amount.currency : widest,
+    amounts[0]?.currency ?? "USD"
+  );
+  const exponent = getCurrencyExponent(scaleCurrency);
+
+  const sum: Money = {
+    minorUnits: amounts.reduce(
+      (total, amount) => total + amount.minorUnits * 10 ** (exponent - getCurrencyExponent(amount.currency)),
+      0
+    ),
+    currency: scaleCurrency,
+  };
+
+  return {
+    matches: parseMoney(totalAmount, scaleCurrency).minorUnits === sum.minorUnits,
+    actual: formatMoneyDecimal(sum),
+  };
+}
@@ -0,0 +1,172 @@
+import { ReportParseError } from "./errors.js";
+
+/**
+ * Column names for each field of a report, canonical name first, followed by known variants.
+ */
+export type ColumnNames<K extends string> = Record<K, string[]>;
+
+/**
+ * Where each field of a report lives, as read from its header row.
+ */
+export interface ColumnMap<K extends string> {
+  indices: Partial<Record<K, number>>;
+  extraColumns: Array<{ name: string; index: number }>; // Columns not in ColumnNames
+  minColumns: number;                                    // Records with fewer columns are incomplete
+}
+
+/**
+ * Error class for when a report's header is missing columns the parser needs.
+ */
+export class ReportFormatError extends ReportParseError {
+  constructor(reportName: string, missingColumns: string[], header: string[]) {
+    super(
+      `The ${reportName} is missing required columns: ${missingColumns.join(", ")}.\n` +
+      `Columns found: ${header.filter(Boolean).join(", ") || "(none)"}`,
+      "Apple may have changed the report format; please open an issue with the columns listed above."
+    );
+    this.name = "ReportFormatError";
+  }
+}
+
+/**
+ * Parses tab-separated content (or another delimiter, e.g. "," for CSV) into records.
+ * Handles CRLF line endings and quoted fields ("a\tb", "say ""hi""", line breaks inside quotes).
+ */
+export function parseTsv(content: string, delimiter = "\t"): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let atFieldStart = true;
+
+  const endField = (): void => {
+    record.push(field);
+    field = "";
+    atFieldStart = true;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && atFieldStart) {
+      inQuotes = true;
+      atFieldStart = false;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endField();
+      records.push(record);
+      record = [];
+    } else {
+      field += char;
+      atFieldStart = false;
+    }
+  }
+
+  if (field || record.length > 0) {
+    endField();
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Checks whether a record is blank (no cells, or only empty ones).
+ */
+export function isBlankRecord(record: string[]): boolean {
+  return record.every((cell) => !cell.trim());
+}
+
+/**
+ * Normalizes a column name for matching ("Country Of Sale" and "country of sale" -> "countryofsale").
+ */
+function normalizeColumnName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Finds the index of a field's column in a header row, trying every known name.
+ */
+function findColumn(normalizedHeader: string[], names: string[]): number | undefined {
+  for (const name of names) {
+    const index = normalizedHeader.indexOf(normalizeColumnName(name));
+    if (index !== -1) return index;
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether a record is a header row containing every required column (e.g. a repeated header).
+ */
+export function isHeaderRecord<K extends string>(
+  record: string[],
+  columnNames: ColumnNames<K>,
+  required: K[]
+): boolean {
+  const normalizedHeader = record.map(normalizeColumnName);
+  return required.every((key) => findColumn(normalizedHeader, columnNames[key]) !== undefined);
+}
+
+/**
+ * Maps a header row to field indices by column name.
+ * Throws ReportFormatError when a required column is missing.
+ */
+export function mapColumns<K extends string>(
+  header: string[],
+  columnNames: ColumnNames<K>,
+  required: K[],
+  reportName: string
+): ColumnMap<K> {
+  const normalizedHeader = header.map(normalizeColumnName);
+  const indices: Partial<Record<K, number>> = {};
+
+  for (const key of Object.keys(columnNames) as K[]) {
+    const index = findColumn(normalizedHeader, columnNames[key]);
+    if (index !== undefined) indices[key] = index;
+  }
+
+  const missing = required.filter((key) => indices[key] === undefined);
+  if (missing.length > 0) {
+    throw new ReportFormatError(reportName, missing.map((key) => columnNames[key][0]), header);
+  }
+
+  const knownIndices = new Set(Object.values(indices));
+  const extraColumns = header
+    .map((name, index) => ({ name: name.trim(), index }))
+    .filter(({ name, index }) => name && !knownIndices.has(index));
+
+  return {
+    indices,
+    extraColumns,
+    minColumns: Math.max(...required.map((key) => indices[key]!)) + 1,
+  };
+}
+
+/**
+ * Gets a field's value from a record ("" when the report has no such column).
+ */
+export function getField<K extends string>(record: string[], columnMap: ColumnMap<K>, key: K): string {
+  const index = columnMap.indices[key];
+  return index === undefined ? "" : (record[index] ?? "").trim();
+}
+
+/**
+ * Gets the values of columns the parser doesn't know about, by column name.
+ */
+export function getExtraFields<K extends string>(record: string[], columnMap: ColumnMap<K>): Record<string, string> {
+  return Object.fromEntries(columnMap.extraColumns.map(({ name, index }) => [name, record[index] ?? ""]));
+}